@@ -1,47 +1,51 @@
 
-import React, { useState, useEffect, useRef } from 'react';
-import { TableEditor } from './components/TableEditor';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { TableEditor, SearchHighlight } from './components/TableEditor';
 import { PropertyPanel } from './components/PropertyPanel';
-import { INITIAL_DATA, A3_WIDTH_MM, A3_HEIGHT_MM, MARGIN_MM } from './constants';
-import { TableData, Selection, TableCellStyle, TableRow } from './types';
-import { exportToPDF } from './services/pdfService';
-import { FileDown, Upload, Save, FolderOpen } from 'lucide-react';
+import { ImportDialog } from './components/ImportDialog';
+import { DocumentPanel } from './components/DocumentPanel';
+import { LegendBlock } from './components/LegendBlock';
+import { DocumentHeader, DocumentFooter } from './components/DocumentBlocks';
+import { RowViewBar } from './components/RowViewBar';
+import { SearchPanel } from './components/SearchPanel';
+import { LibraryDialog } from './components/LibraryDialog';
+import { RecoveryDialog } from './components/RecoveryDialog';
+import { INITIAL_DATA, DEFAULT_LEGEND } from './constants';
+import { TableData, Selection, TableCellStyle, TableRow, TableCell, TableColumn, HeaderGroup, LegendSettings, ProjectFont, PageBreakMode, PageSettings, DocumentSettings, GroupingMode, RowView, TypographySettings } from './types';
+import { exportToPDF, createPdfMeasurer } from './services/pdfService';
+import { computeTableLayout, TextMeasurer } from './services/layoutService';
+import { getPageGeometry, getPageSettings } from './services/pageService';
+import { getDocumentSettings, getTemplateValues, buildFileName } from './services/documentService';
+import { exportToExcel } from './services/excelService';
+import { getColumnMeta, findIndexColumn, applyCellInput } from './services/columnService';
+import { readWorkbook } from './services/importService';
+import { applyComputedTotals } from './services/totalsService';
+import { getUsedCategories } from './services/legendService';
+import { registerBrowserFonts, getFontFamilies, DEFAULT_FONT_FAMILY } from './services/fontService';
+import { canPlaceGroup, getGroupSpan, removeColumnFromGroups } from './services/headerService';
+import { applyGrouping, clearGrouping } from './services/groupingService';
+import { DEFAULT_ROW_VIEW, getRowOrder, applyRowOrder, sortRows, countBodyRows } from './services/viewService';
+import { buildMergeGrid, getAnchor, setCellSpan, autoMergeColumn, unmergeColumn, removeRowFromMerges, removeColumnFromMerges, insertColumnIntoMerges } from './services/mergeService';
+import { getSelectionRange, getRangeCells, stepCell, extendSelection, selectRows, selectColumns } from './services/selectionService';
+import { getRangeValues, buildTsv, buildHtmlTable, parseClipboard, pasteBlock } from './services/clipboardService';
+import { DEFAULT_SEARCH, SearchOptions, buildSearchPattern, findMatches, orderMatches, replaceMatches } from './services/searchService';
+import { moveRow, moveColumn } from './services/reorderService';
+import { CellIssue, findIssues } from './services/validationService';
+import { stripTypography } from './services/typographyService';
+import { serializeProject, parseProject } from './services/projectService';
+import { ProjectRef, LibraryEntry, SessionSnapshot, autosave, readSession, clearSession, listProjects, openLibraryProject, saveLibraryProject, renameLibraryProject, duplicateLibraryProject, deleteLibraryProject } from './services/storageService';
+import { useHistory } from './hooks/useHistory';
+import { FileDown, Upload, Save, FolderOpen, Undo2, Redo2, FileSpreadsheet, TextSearch, Library, Pilcrow } from 'lucide-react';
 import * as XLSX from 'xlsx';
 
-const EXCLUDED_TITLES = [
-  "код графика",
-  "учтено в графике",
-  "тип системы",
-  "тип объекта",
-  "эффект от реализации",
-  "реализация",
-  "источник финансирования"
-];
-
-const SUBHEADER_KEYWORDS = [
-  "(кол-во)",
-  "кол-во",
-  "ед. изм.",
-  "ед.изм.",
-  "единица измерения"
-];
-
-const NUMERIC_COLUMNS = [7, 8, 11, 12];
-
-const formatToFixed1 = (val: string): string => {
-  if (!val || val === '–' || val.trim() === '') return val;
-  const clean = val.toString().replace(/\s/g, '').replace(',', '.');
-  const num = parseFloat(clean);
-  if (!isNaN(num) && /^-?\d+(\.\d+)?$/.test(clean)) {
-    const rounded = Math.round(num * 10) / 10;
-    if (rounded % 1 === 0) return rounded.toString();
-    return rounded.toString().replace('.', ',');
-  }
-  return val;
-};
+// Зазор между листами в предпросмотре
+const PAGE_GAP_MM = 12;
+// Пауза после последней правки перед автосохранением
+const AUTOSAVE_DELAY_MS = 1000;
+const UNTITLED_PROJECT = 'Без названия';
 
 const App: React.FC = () => {
-  const [data, setData] = useState<TableData>(INITIAL_DATA);
+  const { present: data, set: setData, undo, redo, checkpoint, discard, canUndo, canRedo } = useHistory<TableData>(INITIAL_DATA);
   const [selection, setSelection] = useState<Selection>(null);
   const containerRef = useRef<HTMLDivElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
@@ -55,6 +59,118 @@ const App: React.FC = () => {
   const zoomRef = useRef(1);
   const posRef = useRef({ x: 0, y: 0 });
   const resizingRef = useRef(false);
+  const [pendingImport, setPendingImport] = useState<{ workbook: XLSX.WorkBook; fileName: string } | null>(null);
+
+  // Проект в локальной библиотеке и автосохранение; до ответа на запрос восстановления сессия не перезаписывается
+  const [project, setProject] = useState<ProjectRef>({ id: null, name: UNTITLED_PROJECT });
+  const [autosaveReady, setAutosaveReady] = useState(false);
+  const [recovery, setRecovery] = useState<SessionSnapshot | null>(null);
+  const [libraryEntries, setLibraryEntries] = useState<LibraryEntry[] | null>(null);
+
+  const [measurer, setMeasurer] = useState<TextMeasurer | null>(null);
+
+  // Total rows with autoSum get their numeric cells recomputed from the body rows
+  const viewData = useMemo(() => applyComputedTotals(data), [data]);
+  // Сортировка и фильтры редактора: строки показываются в порядке rowOrder, итоги считаются по видимым
+  const [rowView, setRowView] = useState<RowView>(DEFAULT_ROW_VIEW);
+  const rowOrder = useMemo(() => getRowOrder(data, rowView), [data, rowView]);
+  const displayData = useMemo(() => rowOrder ? applyComputedTotals(applyRowOrder(data, rowOrder)) : viewData, [data, rowOrder, viewData]);
+  const toDataRow = (rIdx: number) => (rowOrder && rIdx >= 0 ? rowOrder[rIdx] : rIdx);
+  const displaySelection = useMemo<Selection>(() => {
+    if (!selection || selection.rowIdx < 0 || !rowOrder) return selection;
+    const rowIdx = rowOrder.indexOf(selection.rowIdx);
+    if (rowIdx === -1) return null;
+    // Скрытый фильтром угол диапазона сворачивает выделение до одной ячейки
+    const endRowIdx = selection.endRowIdx !== undefined ? rowOrder.indexOf(selection.endRowIdx) : -1;
+    return endRowIdx === -1
+      ? { rowIdx, colIdx: selection.colIdx }
+      : { rowIdx, colIdx: selection.colIdx, endRowIdx, endColIdx: selection.endColIdx };
+  }, [selection, rowOrder]);
+  const toDataSelection = (sel: Selection): Selection => sel && {
+    ...sel,
+    rowIdx: toDataRow(sel.rowIdx),
+    ...(sel.endRowIdx !== undefined ? { endRowIdx: toDataRow(sel.endRowIdx) } : {})
+  };
+
+  // Диапазон считается в порядке показа; операции получают ячейки в строках проекта
+  const displayGrid = useMemo(() => buildMergeGrid(displayData.rows), [displayData]);
+  const selectionRange = useMemo(() => getSelectionRange(displayGrid, displaySelection), [displayGrid, displaySelection]);
+  const rangeCells = useMemo(
+    () => getRangeCells(displayGrid, selectionRange).map(([r, c]): [number, number] => [toDataRow(r), c]),
+    [displayGrid, selectionRange, rowOrder]
+  );
+  const [isEditing, setIsEditing] = useState(false);
+
+  // The editor is laid out with the PDF font metrics, so line breaks and pages match the export
+  useEffect(() => {
+    let cancelled = false;
+    createPdfMeasurer(data)
+      .then(measure => { if (!cancelled) setMeasurer(() => measure); })
+      .catch(err => console.error('Font metrics error:', err));
+    return () => { cancelled = true; };
+  }, [data.fonts, data.fontFamily]);
+
+  // При запуске предлагаем восстановить работу, оставшуюся от прошлого сеанса
+  useEffect(() => {
+    readSession()
+      .then(session => session ? setRecovery(session) : setAutosaveReady(true))
+      .catch(err => console.error('Autosave is unavailable:', err));
+  }, []);
+
+  useEffect(() => {
+    if (!autosaveReady || (data === INITIAL_DATA && !project.id)) return;
+    const timer = setTimeout(() => {
+      autosave(project, data).catch(err => console.error('Autosave error:', err));
+    }, AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [data, project, autosaveReady]);
+
+  // Поиск идёт по данным проекта; подсветка переводит строки в порядок показа
+  const [searchOpen, setSearchOpen] = useState(false);
+  const [searchOptions, setSearchOptions] = useState<SearchOptions>(DEFAULT_SEARCH);
+  const [searchIndex, setSearchIndex] = useState(0);
+  const [searchFocus, setSearchFocus] = useState(0);
+  const searchPattern = useMemo(() => buildSearchPattern(searchOptions), [searchOptions]);
+  const searchScopeCells = useMemo(() => {
+    // Выделенный заголовок ищет по всей колонке
+    if (selection?.rowIdx === -1) return new Set([`-1:${selection.colIdx}`, ...data.rows.map((_, r) => `${r}:${selection.colIdx}`)]);
+    return new Set(rangeCells.map(([r, c]) => `${r}:${c}`));
+  }, [selection, data.rows, rangeCells]);
+  const searchMatches = useMemo(
+    () => searchOpen ? orderMatches(findMatches(data, searchOptions, searchScopeCells), rowOrder) : [],
+    [searchOpen, data, searchOptions, searchScopeCells, rowOrder]
+  );
+  const currentMatchIdx = Math.min(searchIndex, searchMatches.length - 1);
+  const currentMatch = currentMatchIdx >= 0 ? searchMatches[currentMatchIdx] : null;
+  const searchHighlight = useMemo<SearchHighlight | null>(() => {
+    if (!searchPattern || searchMatches.length === 0) return null;
+    const position = rowOrder ? new Map(rowOrder.map((r, i) => [r, i])) : null;
+    const cells = new Map<string, boolean>();
+    searchMatches.forEach((m, i) => {
+      const rowIdx = position && m.rowIdx >= 0 ? position.get(m.rowIdx) : m.rowIdx;
+      if (rowIdx === undefined) return; // строка скрыта фильтром
+      const key = `${rowIdx}:${m.colIdx}`;
+      cells.set(key, !!cells.get(key) || i === currentMatchIdx);
+    });
+    return { pattern: searchPattern, cells };
+  }, [searchPattern, searchMatches, currentMatchIdx, rowOrder]);
+
+  // Ошибки проверки колонок: полный список для панели, подсветка — в порядке показа
+  const issues = useMemo(() => findIssues(data), [data]);
+  const issueCells = useMemo(() => {
+    const position = rowOrder ? new Map(rowOrder.map((r, i) => [r, i])) : null;
+    const cells = new Map<string, string>();
+    issues.forEach(issue => {
+      const rowIdx = position ? position.get(issue.rowIdx) : issue.rowIdx;
+      if (rowIdx !== undefined) cells.set(`${rowIdx}:${issue.colIdx}`, issue.message);
+    });
+    return cells;
+  }, [issues, rowOrder]);
+
+  // В режиме невидимых символов раскладка помнит, какое правило типографики поставило каждый знак
+  const [showInvisibles, setShowInvisibles] = useState(false);
+  const layout = useMemo(() => measurer ? computeTableLayout(displayData, measurer, showInvisibles) : null, [displayData, measurer, showInvisibles]);
+  const page = useMemo(() => getPageGeometry(data), [data.page]);
 
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
@@ -77,20 +193,177 @@ const App: React.FC = () => {
     };
   }, [isShiftPressed]);
 
+  useEffect(() => {
+    const handleHistoryKeys = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+      // Fields outside the table (search, settings, dialogs) keep their own text undo
+      if ((e.target as HTMLElement).closest?.('input, select, textarea:not([data-cell-editor])')) return;
+      // e.code keeps the shortcut working with the Russian layout active
+      if (e.code === 'KeyZ') {
+        e.preventDefault();
+        if (e.shiftKey) redo(); else undo();
+      } else if (e.code === 'KeyY') {
+        e.preventDefault();
+        redo();
+      }
+    };
+    window.addEventListener('keydown', handleHistoryKeys);
+    return () => window.removeEventListener('keydown', handleHistoryKeys);
+  }, [undo, redo]);
+
+  useEffect(() => {
+    const handleSearchKey = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey || e.code !== 'KeyF') return;
+      e.preventDefault();
+      setSearchOpen(true);
+      setSearchFocus(n => n + 1);
+    };
+    window.addEventListener('keydown', handleSearchKey);
+    return () => window.removeEventListener('keydown', handleSearchKey);
+  }, []);
+
+  useEffect(() => {
+    const handleInvisiblesKey = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || !e.shiftKey || e.altKey || e.code !== 'Digit8') return;
+      e.preventDefault();
+      setShowInvisibles(v => !v);
+    };
+    window.addEventListener('keydown', handleInvisiblesKey);
+    return () => window.removeEventListener('keydown', handleInvisiblesKey);
+  }, []);
+
+  // Ячейка (в строках проекта), ушедшая за край экрана, выводится в центр холста
+  const centerOnCell = (dataRowIdx: number, colIdx: number) => {
+    if (!containerRef.current) return;
+    const rowIdx = rowOrder && dataRowIdx >= 0 ? rowOrder.indexOf(dataRowIdx) : dataRowIdx;
+    const target = containerRef.current.querySelector(`[data-cell="${rowIdx}:${colIdx}"]`);
+    if (!target) return;
+    const box = target.getBoundingClientRect();
+    const view = containerRef.current.getBoundingClientRect();
+    const dx = view.left + view.width / 2 - (box.left + box.width / 2);
+    const dy = view.top + view.height / 2 - (box.top + box.height / 2);
+    if (Math.abs(dx) > view.width / 3 || Math.abs(dy) > view.height / 3) {
+      setPosition(p => ({ x: p.x + dx, y: p.y + dy }));
+    }
+  };
+
+  useEffect(() => {
+    if (currentMatch) centerOnCell(currentMatch.rowIdx, currentMatch.colIdx);
+  }, [currentMatch?.rowIdx, currentMatch?.colIdx]);
+
+  useEffect(() => {
+    // Undo/redo can remove the selected row or column
+    if (!selection) return;
+    const colOutOfRange = selection.rowIdx === -2
+      ? selection.colIdx >= (data.headerGroups?.length || 0)
+      : selection.colIdx >= data.columns.length;
+    const rowOutOfRange = selection.rowIdx >= 0 && selection.rowIdx >= data.rows.length;
+    if (colOutOfRange || rowOutOfRange) {
+      setSelection(null);
+      return;
+    }
+    const endOutOfRange = (selection.endRowIdx ?? 0) >= data.rows.length || (selection.endColIdx ?? 0) >= data.columns.length;
+    if (endOutOfRange) {
+      setSelection({ rowIdx: selection.rowIdx, colIdx: selection.colIdx });
+      return;
+    }
+    // ...or merge the selected cell into another one
+    if (selection.rowIdx >= 0) {
+      const [rowIdx, colIdx] = getAnchor(buildMergeGrid(data.rows), selection.rowIdx, selection.colIdx);
+      if (rowIdx !== selection.rowIdx || colIdx !== selection.colIdx) setSelection({ ...selection, rowIdx, colIdx });
+    }
+  }, [data, selection]);
+
+  // Переход к другой ячейке завершает ввод
+  useEffect(() => { setIsEditing(false); }, [selection?.rowIdx, selection?.colIdx]);
+
+  useEffect(() => {
+    const handleGridKeys = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      // Клавиши таблицы работают, только пока фокус на холсте: панели, кнопки и модальные окна (библиотека, импорт) обрабатывают их сами
+      if (isEditing || (target !== document.body && !containerRef.current?.contains(target))) return;
+      if (target.closest('input, textarea, select, button, [role=button], .fixed')) return;
+      if (!displaySelection || displaySelection.rowIdx < 0) return;
+      const { rowIdx, colIdx } = displaySelection;
+      const moveTo = ([r, c]: [number, number]) => select({ rowIdx: r, colIdx: c });
+      const select = (next: Selection) => {
+        e.preventDefault();
+        checkpoint();
+        setSelection(toDataSelection(next));
+      };
+      const arrows: Record<string, [number, number]> = { ArrowUp: [-1, 0], ArrowDown: [1, 0], ArrowLeft: [0, -1], ArrowRight: [0, 1] };
+
+      if (arrows[e.key] && !e.ctrlKey && !e.metaKey && !e.altKey) {
+        const [dRow, dCol] = arrows[e.key];
+        if (e.shiftKey) select(extendSelection(displayGrid, displaySelection, dRow, dCol));
+        else moveTo(stepCell(displayGrid, rowIdx, colIdx, dRow, dCol));
+      } else if (e.key === 'Tab' && !e.ctrlKey && !e.metaKey) {
+        moveTo(stepTab(rowIdx, colIdx, e.shiftKey ? -1 : 1));
+      } else if (e.key === 'Enter' && !e.ctrlKey && !e.metaKey) {
+        moveTo(stepCell(displayGrid, rowIdx, colIdx, e.shiftKey ? -1 : 1, 0));
+      } else if (e.key === ' ' && e.shiftKey && !e.ctrlKey) {
+        select(selectRows(displayGrid, displaySelection));
+      } else if (e.key === ' ' && (e.ctrlKey || e.metaKey)) {
+        select(selectColumns(displayGrid, displaySelection));
+      } else if (e.key === 'Escape' && displaySelection.endRowIdx !== undefined) {
+        moveTo([rowIdx, colIdx]);
+      } else if (e.key === 'F2') {
+        e.preventDefault();
+        startEditing();
+      } else if (e.key === 'Delete' || e.key === 'Backspace') {
+        e.preventDefault();
+        handleClearCells(rangeCells);
+      } else if (e.key.length === 1 && !e.ctrlKey && !e.metaKey && !e.altKey) {
+        // Набор текста начинает ввод с замены значения, как в Excel
+        e.preventDefault();
+        startEditing(e.key);
+      }
+    };
+    window.addEventListener('keydown', handleGridKeys);
+    return () => window.removeEventListener('keydown', handleGridKeys);
+  }); // без списка зависимостей: обработчик читает текущее выделение и данные
+
+  useEffect(() => {
+    const handleCopy = (e: ClipboardEvent) => {
+      const target = e.target as HTMLElement;
+      if (isEditing || target.closest?.('input, textarea, select') || !selectionRange || !e.clipboardData) return;
+      e.preventDefault();
+      e.clipboardData.setData('text/plain', buildTsv(getRangeValues(displayData, selectionRange)));
+      e.clipboardData.setData('text/html', buildHtmlTable(displayData, selectionRange));
+    };
+    document.addEventListener('copy', handleCopy);
+    return () => document.removeEventListener('copy', handleCopy);
+  }, [isEditing, selectionRange, displayData]);
+
+  useEffect(() => {
+    const handlePaste = (e: ClipboardEvent) => {
+      const target = e.target as HTMLElement;
+      if (isEditing || target.closest?.('input, textarea, select') || !selectionRange || !e.clipboardData) return;
+      const block = parseClipboard(e.clipboardData.getData('text/html'), e.clipboardData.getData('text/plain'));
+      if (block.length === 0) return;
+      e.preventDefault();
+      handlePasteBlock(block, selectionRange.top, selectionRange.left);
+    };
+    document.addEventListener('paste', handlePaste);
+    return () => document.removeEventListener('paste', handlePaste);
+  });
+
+  useEffect(() => { registerBrowserFonts(data.fonts); }, [data.fonts]);
+
   useEffect(() => { zoomRef.current = zoom; posRef.current = position; }, [zoom, position]);
 
   useEffect(() => {
     const handleInitialFit = () => {
       if (containerRef.current) {
         const { clientWidth, clientHeight } = containerRef.current;
-        const fitScale = Math.min((clientWidth - 160) / (A3_WIDTH_MM * basePxPerMm), (clientHeight - 160) / (A3_HEIGHT_MM * basePxPerMm));
+        const fitScale = Math.min((clientWidth - 160) / (page.width * basePxPerMm), (clientHeight - 160) / (page.height * basePxPerMm));
         setZoom(fitScale); setPosition({ x: 0, y: 0 });
       }
     };
     handleInitialFit();
     window.addEventListener('resize', handleInitialFit);
     return () => window.removeEventListener('resize', handleInitialFit);
-  }, []);
+  }, [page.width, page.height]);
 
   useEffect(() => {
     const container = containerRef.current;
@@ -111,84 +384,27 @@ const App: React.FC = () => {
     return () => container.removeEventListener('wheel', handleWheel);
   }, []);
 
-  const handleImportExcel = (e: React.ChangeEvent<HTMLInputElement>) => {
+  const handleImportExcel = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
+    if (fileInputRef.current) fileInputRef.current.value = '';
     if (!file) return;
-    const reader = new FileReader();
-    reader.onload = (evt) => {
-      const bstr = evt.target?.result;
-      const wb = XLSX.read(bstr, { type: 'binary' });
-      const ws = wb.Sheets[wb.SheetNames[0]];
-      const allRowsRaw = XLSX.utils.sheet_to_json(ws, { header: 1, defval: "" }) as any[][];
-      let headerRowIdx = -1;
-      for (let i = 0; i < Math.min(10, allRowsRaw.length); i++) {
-        const rowStr = allRowsRaw[i].join(" ").toLowerCase();
-        if (rowStr.includes("муниципальное") || rowStr.includes("образование") || rowStr.includes("мероприятие")) {
-          headerRowIdx = i; break;
-        }
-      }
-      if (headerRowIdx === -1) return;
-
-      let dataRowsStartIdx = headerRowIdx + 1;
-      while (dataRowsStartIdx < allRowsRaw.length) {
-        const row = allRowsRaw[dataRowsStartIdx];
-        const rowStr = row.join(" ").toLowerCase();
-        const isSubHeader = SUBHEADER_KEYWORDS.some(kw => rowStr.includes(kw.toLowerCase()));
-        const isEmpty = row.every(c => !c || c.toString().trim() === "");
-        if (isSubHeader || isEmpty) dataRowsStartIdx++;
-        else break;
-      }
-
-      const headerRow = allRowsRaw[headerRowIdx];
-      const validIndices: number[] = [];
-      for (let i = 0; i < headerRow.length; i++) {
-        const title = headerRow[i]?.toString().toLowerCase().trim() || "";
-        if (!EXCLUDED_TITLES.some(bl => title.includes(bl))) validIndices.push(i);
-      }
+    try {
+      const workbook = await readWorkbook(file);
+      setPendingImport({ workbook, fileName: file.name });
+    } catch (err) {
+      console.error(err);
+      alert('Не удалось прочитать файл Excel');
+    }
+  };
 
-      const filteredRows = allRowsRaw.slice(dataRowsStartIdx).filter(r => r.some(c => c)).map(row => 
-        validIndices.map(idx => row[idx])
-      );
-
-      const newTableRows: TableRow[] = filteredRows.map((row, rIdx) => {
-        const rowString = row.join(" ").toLowerCase();
-        const isTotal = rIdx === 0 || rowString.includes("всего") || rowString.includes("итого");
-        return {
-          id: `row-import-${Date.now()}-${rIdx}`,
-          isTotal,
-          cells: data.columns.map((_, cIdx) => {
-            let val = row[cIdx]?.toString() || "";
-
-            if (cIdx === 3) {
-              if (val.toLowerCase().trim() === 'да') val = 'Да';
-              if (val.toLowerCase().trim() === 'нет') val = 'Нет';
-            }
-
-            if (NUMERIC_COLUMNS.includes(cIdx)) val = formatToFixed1(val);
-            
-            if (cIdx === 12) {
-              const costVal = formatToFixed1(row[11]?.toString() || "");
-              if (val === costVal || val === "2022") val = "";
-              const cleanVal = val.trim();
-              const isMissing = !cleanVal || cleanVal === '0' || cleanVal === '0,0' || cleanVal === '–';
-              if (isMissing) val = isTotal ? "" : "–";
-            }
-            return {
-              id: `cell-${Date.now()}-${rIdx}-${cIdx}`,
-              value: (cIdx === 0) ? (isTotal ? "" : "AUTO") : val,
-              style: (cIdx === 0 && !isTotal) ? { circleColor: '#1c9ad6' } : undefined
-            };
-          })
-        };
-      });
-      setData({ ...data, rows: newTableRows });
-      if (fileInputRef.current) fileInputRef.current.value = '';
-    };
-    reader.readAsBinaryString(file);
+  const handleConfirmImport = (rows: TableRow[]) => {
+    setData({ ...data, rows });
+    setSelection(null);
+    setPendingImport(null);
   };
 
   const handleSaveProject = () => {
-    const projectJson = JSON.stringify(data, null, 2);
+    const projectJson = serializeProject(data);
     const blob = new Blob([projectJson], { type: 'application/json' });
     const url = URL.createObjectURL(blob);
     const link = document.createElement('a');
@@ -204,153 +420,396 @@ const App: React.FC = () => {
     const reader = new FileReader();
     reader.onload = (evt) => {
       try {
-        const content = evt.target?.result as string;
-        const loadedData = JSON.parse(content);
-        if (loadedData && loadedData.columns && loadedData.rows) {
-          setData(loadedData);
-          setSelection(null);
-        } else {
-          alert('Неверный формат файла проекта');
-        }
+        setData(parseProject(evt.target?.result as string));
+        setSelection(null);
+        setProject({ id: null, name: file.name.replace(/\.json$/i, '') });
       } catch (err) {
         console.error(err);
-        alert('Ошибка при загрузке проекта');
+        alert(err instanceof Error ? err.message : 'Ошибка при загрузке проекта');
       }
       if (projectInputRef.current) projectInputRef.current.value = '';
     };
     reader.readAsText(file);
   };
 
-  const handleUpdateCell = (rowIdx: number, colIdx: number, value: string) => {
-    let val = value;
-    if (colIdx === 3) {
-      if (val.toLowerCase().trim() === 'да') val = 'Да';
-      if (val.toLowerCase().trim() === 'нет') val = 'Нет';
+  const handleRestoreSession = () => {
+    if (!recovery) return;
+    setData(recovery.data);
+    setProject(recovery.project);
+    setRecovery(null);
+    setAutosaveReady(true);
+  };
+
+  const handleDiscardSession = () => {
+    clearSession().catch(err => console.error('Autosave error:', err));
+    setRecovery(null);
+    setAutosaveReady(true);
+  };
+
+  const refreshLibrary = async () => setLibraryEntries(await listProjects());
+
+  // Ошибки IndexedDB (приватный режим, квота) показываются пользователю, данные в редакторе не трогаются
+  const withLibrary = async (action: () => Promise<void>, message: string) => {
+    try {
+      await action();
+    } catch (err) {
+      console.error(err);
+      alert(err instanceof Error && err.message ? err.message : message);
     }
-    if (!data.rows[rowIdx]) return;
-    const isTotal = data.rows[rowIdx].isTotal;
-    if (NUMERIC_COLUMNS.includes(colIdx)) val = formatToFixed1(val);
-    if (colIdx === 12) {
-      const cleanVal = val.trim();
-      if (!cleanVal || cleanVal === '0' || cleanVal === '0,0' || cleanVal === '–') val = isTotal ? "" : "–";
+  };
+
+  const handleOpenLibrary = () => withLibrary(refreshLibrary, 'Библиотека проектов недоступна в этом браузере');
+
+  const handleSaveToLibrary = (name: string) => withLibrary(async () => {
+    const entry = await saveLibraryProject({ id: project.id, name }, data);
+    setProject({ id: entry.id, name: entry.name });
+    await refreshLibrary();
+  }, 'Не удалось сохранить проект в библиотеку');
+
+  const handleOpenFromLibrary = (id: string) => withLibrary(async () => {
+    if (id === project.id) {
+      setLibraryEntries(null);
+      return;
     }
-    const newData = { ...data };
-    newData.rows[rowIdx].cells[colIdx].value = val;
-    setData(newData);
+    if (!project.id && data !== INITIAL_DATA && !confirm('Текущая работа не сохранена в библиотеке и будет заменена. Продолжить?')) return;
+    const { entry, data: loaded } = await openLibraryProject(id);
+    setData(loaded);
+    setSelection(null);
+    setProject({ id: entry.id, name: entry.name });
+    setLibraryEntries(null);
+  }, 'Ошибка при открытии проекта');
+
+  const handleDuplicateInLibrary = (id: string) => withLibrary(async () => {
+    const source = libraryEntries?.find(e => e.id === id);
+    await duplicateLibraryProject(id, `${source?.name || UNTITLED_PROJECT} (копия)`);
+    await refreshLibrary();
+  }, 'Не удалось скопировать проект');
+
+  const handleRenameInLibrary = (id: string, name: string) => withLibrary(async () => {
+    await renameLibraryProject(id, name);
+    if (id === project.id) setProject({ id, name });
+    await refreshLibrary();
+  }, 'Не удалось переименовать проект');
+
+  const handleDeleteFromLibrary = (id: string) => withLibrary(async () => {
+    const entry = libraryEntries?.find(e => e.id === id);
+    if (!confirm(`Удалить проект «${entry?.name || ''}» из библиотеки?`)) return;
+    await deleteLibraryProject(id);
+    // Открытый проект остаётся в редакторе, но больше не связан с библиотекой
+    if (id === project.id) setProject({ id: null, name: project.name });
+    await refreshLibrary();
+  }, 'Не удалось удалить проект');
+
+  const handleSelectIssue = (issue: CellIssue) => {
+    setSelection({ rowIdx: issue.rowIdx, colIdx: issue.colIdx });
+    centerOnCell(issue.rowIdx, issue.colIdx);
+  };
+
+  const handleExportPdf = () => {
+    if (issues.length > 0 && !confirm(`Проверка данных нашла ошибки: ${issues.length}. Экспортировать PDF без исправлений?`)) return;
+    exportToPDF(rowView.applyToPdf ? displayData : viewData);
+  };
+
+  // Ввод в одну ячейку — одна группа истории
+  const cellEditGroup = (rowId: string, colIdx: number) => `cell:${rowId}:${colIdx}`;
+
+  const handleUpdateCell = (rowIdx: number, colIdx: number, value: string) => {
+    if (!data.rows[rowIdx]) return;
+    const row = data.rows[rowIdx];
+    const rows = [...data.rows];
+    rows[rowIdx] = { ...row, cells: row.cells.map((c, i) => i === colIdx ? applyCellInput(data.columns[i], row, c, value) : c) };
+    setData({ ...data, rows }, cellEditGroup(row.id, colIdx));
   };
 
-  const handleUpdateCellStyle = (rowIdx: number, colIdx: number, style: TableCellStyle) => {
+  const handleSetAutoSum = (rowIdx: number, autoSum: boolean) => {
+    const row = data.rows[rowIdx];
+    if (!row?.isTotal) return;
+    const rows = [...data.rows];
+    rows[rowIdx] = { ...row, autoSum };
+    setData({ ...data, rows });
+  };
+
+  const handleSetCellManual = (rowIdx: number, colIdx: number, manual: boolean) => {
+    const row = data.rows[rowIdx];
+    if (!row) return;
+    const viewValue = viewData.rows[rowIdx]?.cells[colIdx]?.value ?? '';
+    const rows = [...data.rows];
+    rows[rowIdx] = {
+      ...row,
+      // Pinning keeps the currently shown sum as the starting manual value
+      cells: row.cells.map((c, i) => i === colIdx ? { ...c, manual, value: manual ? viewValue : c.value } : c)
+    };
+    setData({ ...data, rows });
+  };
+
+  // Стиль шрифта и цвет кружка ложатся на все ячейки диапазона `cells` того же вида, что и активная
+  const handleUpdateCellStyle = (rowIdx: number, colIdx: number, style: TableCellStyle, cells: [number, number][] = [[rowIdx, colIdx]]) => {
     if (rowIdx < 0) return; 
     if (!data.rows[rowIdx]) return;
-    const newData = { ...data };
-    const currentCell = newData.rows[rowIdx].cells[colIdx];
-    if (colIdx === 0) {
-      if (style.fontSize !== undefined) {
-        newData.rows.forEach(r => {
-          if (!r.isTotal) {
-            r.cells[0].style = { ...r.cells[0].style, fontSize: style.fontSize };
-          }
-        });
-      }
-      if (style.circleSize !== undefined) {
-        newData.rows.forEach(r => {
-          if (!r.isTotal) {
-            r.cells[0].style = { ...r.cells[0].style, circleSize: style.circleSize };
-          }
-        });
-      }
-      if (style.fontWeight !== undefined) {
-        newData.rows.forEach(r => {
-          if (!r.isTotal) {
-            r.cells[0].style = { ...r.cells[0].style, fontWeight: style.fontWeight };
-          }
-        });
+    const currentCell = data.rows[rowIdx].cells[colIdx];
+    const withStyle = (cell: TableCell, patch: TableCellStyle): TableCell => ({ ...cell, style: { ...cell.style, ...patch } });
+    const isIndexCol = (idx: number) => getColumnMeta(data.columns[idx]).type === 'index';
+    const targets = new Set(cells.map(([r, c]) => `${r}:${c}`));
+    const patchTargets = (patch: TableCellStyle) => rows.map((r, ri) => !r.cells.some((_, i) => targets.has(`${ri}:${i}`)) ? r : {
+      ...r,
+      cells: r.cells.map((c, i) => targets.has(`${ri}:${i}`) && isIndexCol(i) === isIndexCol(colIdx) ? withStyle(c, patch) : c)
+    });
+    let rows = data.rows;
+    let columns = data.columns;
+    if (isIndexCol(colIdx)) {
+      const linked: TableCellStyle = {};
+      if (style.fontSize !== undefined) linked.fontSize = style.fontSize;
+      if (style.circleSize !== undefined) linked.circleSize = style.circleSize;
+      if (style.fontWeight !== undefined) linked.fontWeight = style.fontWeight;
+      if (Object.keys(linked).length > 0) {
+        rows = rows.map(r => r.isTotal ? r : { ...r, cells: r.cells.map((c, i) => i === colIdx ? withStyle(c, linked) : c) });
       }
       if (style.circleColor !== undefined) {
-        currentCell.style = { ...currentCell.style, circleColor: style.circleColor };
+        rows = patchTargets({ circleColor: style.circleColor });
       }
     } else {
       if (style.fontSize !== undefined) {
-        const isNumericCol = (idx: number) => idx >= 7;
-        const getBaseSize = (idx: number) => isNumericCol(idx) ? 3.8 : 3.1;
-        const oldFontSize = currentCell.style?.fontSize || getBaseSize(colIdx);
+        // Размеры всех колонок кроме номера масштабируются вместе: умолчания колонок и ручные размеры ячеек
+        const oldFontSize = currentCell.style?.fontSize || getColumnMeta(data.columns[colIdx]).fontSize;
         const ratio = style.fontSize / oldFontSize;
-        newData.rows.forEach(r => r.cells.forEach((c, idx) => {
-          if (idx === 0) return;
-          const base = c.style?.fontSize || getBaseSize(idx);
-          c.style = { ...c.style, fontSize: base * ratio };
-        }));
+        columns = columns.map((c, idx) => isIndexCol(idx) ? c : { ...c, fontSize: getColumnMeta(c).fontSize * ratio });
+        rows = rows.map(r => ({ ...r, cells: r.cells.map((c, idx) => {
+          if (isIndexCol(idx) || !c.style?.fontSize) return c;
+          return withStyle(c, { fontSize: c.style.fontSize * ratio });
+        }) }));
       }
       if (style.fontWeight !== undefined) {
-        currentCell.style = { ...currentCell.style, fontWeight: style.fontWeight };
+        rows = patchTargets({ fontWeight: style.fontWeight });
+      }
+      if (style.fontStyle !== undefined) {
+        rows = patchTargets({ fontStyle: style.fontStyle });
       }
     }
-    setData({ ...newData });
+    setData({ ...data, columns, rows });
   };
 
   const handleUpdateColumnTitle = (colIdx: number, title: string) => {
-    const newData = { ...data };
-    newData.columns[colIdx].title = title;
-    setData(newData);
+    const columns = data.columns.map((c, i) => i === colIdx ? { ...c, title } : c);
+    setData({ ...data, columns }, `title:${data.columns[colIdx].id}`);
   };
 
-  const handleUpdateGroupTitle = (title: string) => {
-    setData({ ...data, groupTitle: title });
+  const handleUpdateColumn = (colIdx: number, patch: Partial<TableColumn>) => {
+    const columns = data.columns.map((c, i) => i === colIdx ? { ...c, ...patch } : c);
+    setData({ ...data, columns });
   };
 
-  const handleAddRow = () => {
+  const handleUpdateLegend = (patch: Partial<LegendSettings>) => {
+    const legend = { ...(data.legend || DEFAULT_LEGEND), ...patch };
+    setData({ ...data, legend }, patch.title !== undefined ? 'legend-title' : undefined);
+  };
+
+  const handleUpdatePage = (patch: Partial<PageSettings>) => {
+    const current = getPageSettings(data);
+    // A custom sheet starts from the size currently on screen
+    const seed = patch.format === 'custom' && current.format !== 'custom'
+      ? { width: page.width, height: page.height }
+      : {};
+    const isTyping = patch.margins !== undefined || patch.width !== undefined || patch.height !== undefined;
+    setData({ ...data, page: { ...current, ...seed, ...patch } }, isTyping ? 'page-size' : undefined);
+  };
+
+  const handleUpdateDocument = (patch: Partial<DocumentSettings>) => {
+    const isTyping = Object.values(patch).every(v => typeof v === 'string');
+    setData({ ...data, document: { ...getDocumentSettings(data), ...patch } }, isTyping ? `document:${Object.keys(patch).join(',')}` : undefined);
+  };
+
+  const handleSetFontFamily = (fontFamily: string) => {
+    setData({ ...data, fontFamily });
+  };
+
+  const handleUpdateTypography = (typography: TypographySettings | undefined) => {
+    setData({ ...data, typography });
+  };
+
+  const handleAddFont = (font: ProjectFont) => {
+    // A newer upload replaces the same variant of the same family
+    const fonts = (data.fonts || []).filter(f => !(f.family === font.family && f.variant === font.variant));
+    setData({ ...data, fonts: [...fonts, font] });
+  };
+
+  const handleRemoveFont = (fontId: string) => {
+    const fonts = (data.fonts || []).filter(f => f.id !== fontId);
+    const familyStillAvailable = getFontFamilies(fonts).includes(data.fontFamily || DEFAULT_FONT_FAMILY);
+    setData({ ...data, fonts, fontFamily: familyStillAvailable ? data.fontFamily : undefined });
+  };
+
+  const handleUpdateGroupTitle = (groupIdx: number, title: string) => {
+    const headerGroups = (data.headerGroups || []).map((g, i) => i === groupIdx ? { ...g, title } : g);
+    setData({ ...data, headerGroups }, `group-title:${headerGroups[groupIdx]?.id}`);
+  };
+
+  // `suffix` keeps ids unique when several rows are created at once
+  const createBodyRow = (suffix = ''): TableRow => {
+    const indexCol = findIndexColumn(data.columns);
     const existingBodyRow = data.rows.find(r => !r.isTotal);
-    const baseStyle = existingBodyRow?.cells[0]?.style || {};
+    const baseStyle = (indexCol !== -1 && existingBodyRow?.cells[indexCol]?.style) || {};
     const newRowStyle: TableCellStyle = {
       ...baseStyle,
       circleColor: '#1c9ad6' 
     };
-    const newRow: TableRow = {
-      id: `r${Date.now()}`,
+    return {
+      id: `r${Date.now()}${suffix}`,
       cells: data.columns.map((_, i) => ({
-        id: `c${Date.now()}${i}`,
-        value: i === 0 ? 'AUTO' : '',
-        style: i === 0 ? newRowStyle : undefined
+        id: `c${Date.now()}${suffix}${i}`,
+        value: i === indexCol ? 'AUTO' : '',
+        style: i === indexCol ? newRowStyle : undefined
       }))
     };
-    setData({ ...data, rows: [...data.rows, newRow] });
+  };
+
+  const handleAddRow = () => {
+    setData({ ...data, rows: [...data.rows, createBodyRow()] });
+  };
+
+  // Блок ложится от левого верхнего угла выделения и выделяется после вставки
+  const handlePasteBlock = (block: string[][], top: number, left: number) => {
+    const order = rowOrder || data.rows.map((_, r) => r);
+    const next = pasteBlock(data, block, order, top, left, n => createBodyRow(`p${n}`));
+    checkpoint();
+    setData(next);
+    const bottom = top + block.length - 1;
+    const endRowIdx = bottom < order.length ? order[bottom] : next.rows.length - 1;
+    const endColIdx = Math.min(left + Math.max(...block.map(line => line.length)) - 1, data.columns.length - 1);
+    setSelection({ rowIdx: order[top], colIdx: left, endRowIdx, endColIdx });
   };
 
   const handleResizeColumn = (idx: number, delta: number) => {
     resizingRef.current = true;
-    const newData = { ...data };
-    if (idx + 1 < newData.columns.length) {
-      const actual = Math.max(Math.min(delta, newData.columns[idx + 1].width - 1), -(newData.columns[idx].width - 1));
-      newData.columns[idx].width += actual;
-      newData.columns[idx + 1].width -= actual;
-      setData(newData);
+    if (idx + 1 < data.columns.length) {
+      const actual = Math.max(Math.min(delta, data.columns[idx + 1].width - 1), -(data.columns[idx].width - 1));
+      const columns = data.columns.map((c, i) => {
+        if (i === idx) return { ...c, width: c.width + actual };
+        if (i === idx + 1) return { ...c, width: c.width - actual };
+        return c;
+      });
+      setData({ ...data, columns }, `resize:${idx}`);
     }
   };
 
+  const handleResizeEnd = () => {
+    resizingRef.current = false;
+    checkpoint();
+  };
+
+  const handleSetPageBreak = (rowIdx: number, pageBreak: PageBreakMode | undefined) => {
+    const rows = data.rows.map((r, i) => i === rowIdx ? { ...r, pageBreak } : r);
+    setData({ ...data, rows });
+  };
+
+  const handleSetCellSpan = (rowIdx: number, colIdx: number, rowSpan: number, colSpan: number) => {
+    const rows = setCellSpan(data.rows, rowIdx, colIdx, rowSpan, colSpan);
+    if (rows) setData({ ...data, rows });
+  };
+
+  const handleAutoMergeColumn = (colIdx: number) => {
+    setData({ ...data, rows: autoMergeColumn(data.rows, colIdx) });
+  };
+
+  const handleUnmergeColumn = (colIdx: number) => {
+    setData({ ...data, rows: unmergeColumn(data.rows, colIdx) });
+  };
+
+  const handleGroupByColumn = (colIdx: number, mode: GroupingMode) => {
+    const columnId = data.columns[colIdx].id;
+    setData(applyGrouping(data, { columnId, mode, restartNumbering: !!data.grouping?.restartNumbering }));
+  };
+
+  const handleClearGrouping = () => {
+    setData(clearGrouping(data));
+  };
+
+  const handleSetGroupNumbering = (restartNumbering: boolean) => {
+    if (!data.grouping) return;
+    setData({ ...data, grouping: { ...data.grouping, restartNumbering } });
+  };
+
+  const handleApplySort = () => {
+    if (!rowView.sortColumnId) return;
+    setData({ ...data, rows: sortRows(data, rowView.sortColumnId, rowView.sortDirection) });
+    setRowView({ ...rowView, sortColumnId: null });
+    setSelection(null);
+  };
+
+  const handleSearchChange = (patch: Partial<SearchOptions>) => {
+    setSearchOptions({ ...searchOptions, ...patch });
+    setSearchIndex(0);
+  };
+
+  const handleSearchStep = (step: number) => {
+    if (searchMatches.length === 0) return;
+    setSearchIndex((currentMatchIdx + step + searchMatches.length) % searchMatches.length);
+  };
+
+  // Заменённое совпадение пропадает, и следующее встаёт на его номер
+  const handleReplace = () => {
+    if (!currentMatch) return;
+    setData(replaceMatches(data, [currentMatch], searchOptions));
+  };
+
+  // Одна запись в истории: Ctrl+Z возвращает все замены разом
+  const handleReplaceAll = () => {
+    if (searchMatches.length === 0) return;
+    setData(replaceMatches(data, searchMatches, searchOptions));
+    setSearchIndex(0);
+  };
+
   const handleDeleteRow = (idx: number) => {
-    const r = [...data.rows]; 
+    const r = removeRowFromMerges(data.rows, idx); 
     r.splice(idx, 1); 
     setData({ ...data, rows: r }); 
     setSelection(null);
   };
 
-  const handleAddColumn = (at: number | undefined) => {
-    const newCol = { id: `c${Date.now()}`, title: 'Новый', width: 5 };
-    const cols = [...data.columns];
-    if (at !== undefined && at !== -1) cols.splice(at + 1, 0, newCol); 
-    else if (at === -1) cols.splice(8, 0, newCol); 
-    else cols.push(newCol);
+  // Inserts a column after `at` (or at the end) and returns it with its id
+  const insertColumn = (source: TableData, at: number | undefined) => {
+    const newCol: TableColumn = { id: `c${Date.now()}`, title: 'Новый', width: 5, type: 'text' };
+    const insertAt = at !== undefined ? at + 1 : source.columns.length;
+    const cols = [...source.columns];
+    cols.splice(insertAt, 0, newCol);
     const scale = 100 / cols.reduce((s, c) => s + c.width, 0);
-    cols.forEach(c => c.width *= scale);
-    const rows = data.rows.map(r => { 
+    const scaledCols = cols.map(c => ({ ...c, width: c.width * scale }));
+    const rows = insertColumnIntoMerges(source.rows.map(r => { 
       const c = [...r.cells]; 
-      const cellId = `cc${Date.now()}-${Math.random()}`;
-      if (at !== undefined && at !== -1) c.splice(at + 1, 0, { id: cellId, value: '' }); 
-      else if (at === -1) c.splice(8, 0, { id: cellId, value: '' });
-      else c.push({ id: cellId, value: '' }); 
+      c.splice(insertAt, 0, { id: `cc${Date.now()}-${Math.random()}`, value: '' }); 
       return { ...r, cells: c }; 
+    }), insertAt);
+    return { data: { ...source, columns: scaledCols, rows }, columnId: newCol.id };
+  };
+
+  const handleAddColumn = (at: number | undefined) => {
+    setData(insertColumn(data, at).data);
+  };
+
+  const handleAddColumnToGroup = (groupIdx: number) => {
+    const group = data.headerGroups?.[groupIdx];
+    const span = group && getGroupSpan(data.columns, group);
+    if (!group || !span) return;
+    const { data: next, columnId } = insertColumn(data, span[1]);
+    const headerGroups = next.headerGroups!.map(g => {
+      const gSpan = getGroupSpan(data.columns, g);
+      // Every group ending at the same column (the group and its parents) grows with it
+      return gSpan && gSpan[1] === span[1] && gSpan[0] <= span[0] ? { ...g, endColId: columnId } : g;
     });
-    setData({ ...data, columns: cols, rows });
+    setData({ ...next, headerGroups });
+  };
+
+  const handleMoveRow = (from: number, before: number) => {
+    const next = moveRow(data, from, before);
+    if (next === data) return;
+    setData(next);
+    setSelection(null);
+  };
+
+  const handleMoveColumn = (from: number, before: number) => {
+    const next = moveColumn(data, from, before);
+    if (next === data) return;
+    setData(next);
+    setSelection(null);
   };
 
   const handleDeleteColumn = (idx: number) => {
@@ -359,19 +818,144 @@ const App: React.FC = () => {
     const delW = cols[idx].width; 
     cols.splice(idx, 1);
     const scale = 100 / (100 - delW); 
-    cols.forEach(c => c.width *= scale);
-    const rows = data.rows.map(r => { const c = [...r.cells]; c.splice(idx, 1); return { ...r, cells: c }; });
-    setData({ ...data, columns: cols, rows }); 
+    const scaledCols = cols.map(c => ({ ...c, width: c.width * scale }));
+    const rows = removeColumnFromMerges(data.rows, idx).map(r => { const c = [...r.cells]; c.splice(idx, 1); return { ...r, cells: c }; });
+    const headerGroups = removeColumnFromGroups(data.headerGroups || [], data.columns, idx);
+    const grouping = data.grouping?.columnId === data.columns[idx].id ? undefined : data.grouping;
+    setData({ ...data, columns: scaledCols, rows, headerGroups, grouping }); 
     setSelection(null);
   };
 
-  const handleSelect = (rIdx: number, cIdx: number) => {
-    if (selection?.rowIdx !== rIdx || selection?.colIdx !== cIdx) {
+  const handleCreateHeaderGroup = (colIdx: number) => {
+    const groups = data.headerGroups || [];
+    if (!canPlaceGroup(data.columns, groups, colIdx, colIdx)) return;
+    const colId = data.columns[colIdx].id;
+    const group: HeaderGroup = { id: `g${Date.now()}`, title: 'Группа', startColId: colId, endColId: colId };
+    setData({ ...data, headerGroups: [...groups, group] });
+    setSelection({ rowIdx: -2, colIdx: groups.length });
+  };
+
+  const handleSetHeaderGroupSpan = (groupIdx: number, start: number, end: number) => {
+    const groups = data.headerGroups || [];
+    const group = groups[groupIdx];
+    if (!group || !canPlaceGroup(data.columns, groups, start, end, group.id)) return;
+    const headerGroups = groups.map((g, i) => i === groupIdx ? { ...g, startColId: data.columns[start].id, endColId: data.columns[end].id } : g);
+    setData({ ...data, headerGroups });
+  };
+
+  const handleWrapHeaderGroup = (groupIdx: number) => {
+    const groups = data.headerGroups || [];
+    const group = groups[groupIdx];
+    if (!group) return;
+    // The parent goes first: with equal spans the earlier group is the outer one
+    const parent: HeaderGroup = { id: `g${Date.now()}`, title: 'Группа', startColId: group.startColId, endColId: group.endColId };
+    const headerGroups = [...groups];
+    headerGroups.splice(groupIdx, 0, parent);
+    setData({ ...data, headerGroups });
+    setSelection({ rowIdx: -2, colIdx: groupIdx });
+  };
+
+  const handleDeleteHeaderGroup = (groupIdx: number) => {
+    const headerGroups = (data.headerGroups || []).filter((_, i) => i !== groupIdx);
+    setData({ ...data, headerGroups });
+    setSelection(null);
+  };
+
+  const handleSelect = (rIdx: number, cIdx: number, extend = false) => {
+    if (extend && rIdx === -1 && displayData.rows.length > 0) {
+      // Shift+клик по заголовку выделяет всю колонку
+      checkpoint();
+      setSelection({ rowIdx: toDataRow(0), colIdx: cIdx, endRowIdx: toDataRow(displayData.rows.length - 1), endColIdx: cIdx });
+      return;
+    }
+    if (extend && rIdx >= 0 && selection && selection.rowIdx >= 0) {
+      setSelection({ rowIdx: selection.rowIdx, colIdx: selection.colIdx, endRowIdx: rIdx, endColIdx: cIdx });
+      return;
+    }
+    const isSame = selection?.rowIdx === rIdx && selection?.colIdx === cIdx && selection.endRowIdx === undefined;
+    if (isSame && rIdx >= 0 && !isEditing) {
+      // Повторный клик по выделенной ячейке открывает её для ввода
+      startEditing();
+    } else if (!isSame) {
+      checkpoint();
       setSelection({ rowIdx: rIdx, colIdx: cIdx });
     }
   };
 
+  const startEditing = (value?: string) => {
+    if (!selection || selection.rowIdx < 0) return;
+    const { rowIdx, colIdx } = selection;
+    if (getColumnMeta(data.columns[colIdx]).type === 'index') return;
+    checkpoint();
+    setSelection({ rowIdx, colIdx });
+    if (value !== undefined) handleUpdateCell(rowIdx, colIdx, value);
+    setIsEditing(true);
+  };
+
+  // Tab идёт по строке и с её края переходит на соседнюю строку
+  const stepTab = (rowIdx: number, colIdx: number, dir: number): [number, number] => {
+    const next = stepCell(displayGrid, rowIdx, colIdx, 0, dir);
+    if (next[0] !== rowIdx || next[1] !== colIdx) return next;
+    const area = displayGrid[rowIdx]?.[colIdx];
+    const r = dir > 0 ? (area ? area.row + area.rowSpan : rowIdx + 1) : (area ? area.row : rowIdx) - 1;
+    if (r < 0 || r >= displayGrid.length) return [rowIdx, colIdx];
+    return getAnchor(displayGrid, r, dir > 0 ? 0 : data.columns.length - 1);
+  };
+
+  const handleCommitEdit = (dRow: number, dCol: number) => {
+    setIsEditing(false);
+    checkpoint();
+    if (!displaySelection) return;
+    const { rowIdx, colIdx } = displaySelection;
+    const [r, c] = dCol !== 0 ? stepTab(rowIdx, colIdx, dCol) : stepCell(displayGrid, rowIdx, colIdx, dRow, 0);
+    setSelection({ rowIdx: toDataRow(r), colIdx: c });
+  };
+
+  // Ввод с начала редактирования — одна группа истории; отмена сбрасывает её целиком,
+  // не оставляя отменённый текст в истории повтора
+  const handleCancelEdit = () => {
+    setIsEditing(false);
+    if (!selection || selection.rowIdx < 0) return;
+    const row = data.rows[selection.rowIdx];
+    if (row) discard(cellEditGroup(row.id, selection.colIdx));
+  };
+
+  const handleClearCells = (cells: [number, number][]) => {
+    if (cells.length === 0) return;
+    const keys = new Set(cells.map(([r, c]) => `${r}:${c}`));
+    const rows = data.rows.map((row, r) => !row.cells.some((_, c) => keys.has(`${r}:${c}`)) ? row : {
+      ...row,
+      cells: row.cells.map((cell, c) => {
+        const column = data.columns[c];
+        if (!keys.has(`${r}:${c}`) || getColumnMeta(column).type === 'index') return cell;
+        return applyCellInput(column, row, cell, '');
+      })
+    });
+    setData({ ...data, rows });
+  };
+
+  // Снятие и повторное применение типографики в ячейках диапазона; служебные знаки,
+  // попавшие в само значение (например, при вставке из Word), убираются в обоих случаях
+  const handleSetCellsPlain = (plain: boolean) => {
+    if (rangeCells.length === 0) return;
+    const keys = new Set(rangeCells.map(([r, c]) => `${r}:${c}`));
+    const rows = data.rows.map((row, r) => !row.cells.some((_, c) => keys.has(`${r}:${c}`)) ? row : {
+      ...row,
+      cells: row.cells.map((cell, c) => {
+        if (!keys.has(`${r}:${c}`) || getColumnMeta(data.columns[c]).type === 'index') return cell;
+        return { ...cell, value: stripTypography(cell.value), plain: plain || undefined };
+      })
+    });
+    setData({ ...data, rows });
+  };
+
   const currentPxPerMm = basePxPerMm * zoom;
+  // Until the font metrics are loaded the canvas shows one empty sheet
+  const pages = layout ? layout.pages : [[]];
+  const legendItems = getUsedCategories(displayData);
+  const legendCorner = data.legend?.enabled && data.legend.position !== 'below'
+    ? (data.legend.position === 'bottom-left' ? 'left' : 'right')
+    : null;
   return (
     <div className="flex h-screen bg-[#111111] overflow-hidden font-['Roboto_Condensed'] text-slate-100">
       <div ref={containerRef} className="flex-1 overflow-hidden relative select-none" onMouseDown={(e) => {
@@ -386,35 +970,131 @@ const App: React.FC = () => {
       }} onMouseMove={(e) => isDragging && setPosition({ x: e.clientX - dragStartRef.current.x, y: e.clientY - dragStartRef.current.y })}
       onMouseUp={() => { 
         setIsDragging(false); 
-        resizingRef.current = false;
         if (containerRef.current) containerRef.current.style.cursor = isShiftPressed ? 'grab' : 'auto'; 
       }}>
-        <div className="bg-white shadow-2xl absolute left-1/2 top-1/2 flex flex-col origin-center"
-          style={{ width: `${A3_WIDTH_MM * currentPxPerMm}px`, height: `${A3_HEIGHT_MM * currentPxPerMm}px`, padding: `${MARGIN_MM * currentPxPerMm}px`, transform: `translate(calc(-50% + ${position.x}px), calc(-50% + ${position.y}px))` }}>
-          <div className="w-full flex-1 relative overflow-visible">
-            <TableEditor 
-              data={data} 
-              selection={selection} 
-              onSelect={handleSelect} 
-              onUpdateCell={handleUpdateCell} 
-              onUpdateCellStyle={handleUpdateCellStyle}
-              onUpdateColumnTitle={handleUpdateColumnTitle}
-              onUpdateGroupTitle={handleUpdateGroupTitle}
-              pxPerMm={currentPxPerMm}
-              onResizeColumn={handleResizeColumn}
-              onAddRow={handleAddRow}
-              onDeleteRow={handleDeleteRow}
-              onAddColumn={handleAddColumn}
-              onDeleteColumn={handleDeleteColumn}
-            />
-          </div>
+        <div className="absolute left-1/2 top-1/2 flex flex-col origin-center"
+          style={{ gap: `${PAGE_GAP_MM * currentPxPerMm}px`, transform: `translate(calc(-50% + ${position.x}px), calc(-${page.height * currentPxPerMm / 2}px + ${position.y}px))` }}>
+          {pages.map((pageRows, pageIdx) => {
+            const isLastPage = pageIdx === pages.length - 1;
+            const templateValues = layout && getTemplateValues(layout.document.settings, new Date(), pageIdx + 1, pages.length);
+            return (
+              <div key={pageIdx} className="bg-white shadow-2xl relative flex flex-col"
+                style={{ fontFamily: `'${data.fontFamily || DEFAULT_FONT_FAMILY}'`, width: `${page.width * currentPxPerMm}px`, minHeight: `${page.height * currentPxPerMm}px`, padding: `${page.margins.top * currentPxPerMm}px ${page.margins.right * currentPxPerMm}px ${page.margins.bottom * currentPxPerMm}px ${page.margins.left * currentPxPerMm}px` }}>
+                <div className="absolute right-0 text-gray-500 font-bold uppercase tracking-widest pointer-events-none" style={{ bottom: '100%', paddingBottom: `${currentPxPerMm}px`, fontSize: `${3 * currentPxPerMm}px` }}>
+                  Лист {pageIdx + 1} из {pages.length}
+                </div>
+                {layout && (
+                  <div className="absolute" style={{ left: `${page.margins.left * currentPxPerMm}px`, right: `${page.margins.right * currentPxPerMm}px`, bottom: `${page.margins.bottom * currentPxPerMm}px` }}>
+                    <DocumentFooter blocks={layout.document} values={templateValues!} pxPerMm={currentPxPerMm} />
+                  </div>
+                )}
+                {layout && (
+                  <DocumentHeader blocks={layout.document} values={templateValues!} showTitle={pageIdx === 0 || layout.document.settings.repeatTitle} pxPerMm={currentPxPerMm} />
+                )}
+                {isLastPage && legendCorner && (
+                  <div className="absolute z-10" style={{ bottom: `${(page.margins.bottom + (layout?.document.footerHeight || 0)) * currentPxPerMm}px`, [legendCorner]: `${page.margins[legendCorner] * currentPxPerMm}px`, maxWidth: `${page.contentWidth / 2 * currentPxPerMm}px` }}>
+                    <LegendBlock title={data.legend!.title} items={legendItems} pxPerMm={currentPxPerMm} boxed />
+                  </div>
+                )}
+                <div className="w-full flex-1 relative overflow-visible">
+                  {layout && <TableEditor 
+                    data={displayData} 
+                    layout={layout}
+                    rowIndices={pageRows}
+                    isFirstPage={pageIdx === 0}
+                    isLastPage={isLastPage}
+                    selection={displaySelection} 
+                    selectionRange={selectionRange}
+                    isEditing={isEditing}
+                    onSelect={(rIdx, cIdx, extend) => handleSelect(toDataRow(rIdx), cIdx, extend)} 
+                    onCommitEdit={handleCommitEdit}
+                    onCancelEdit={handleCancelEdit}
+                    onUpdateCell={(rIdx, cIdx, value) => handleUpdateCell(toDataRow(rIdx), cIdx, value)} 
+                    onUpdateCellStyle={(rIdx, cIdx, style) => handleUpdateCellStyle(toDataRow(rIdx), cIdx, style)}
+                    onUpdateColumnTitle={handleUpdateColumnTitle}
+                    onUpdateGroupTitle={handleUpdateGroupTitle}
+                    onAddColumnToGroup={handleAddColumnToGroup}
+                    pxPerMm={currentPxPerMm}
+                    onResizeColumn={handleResizeColumn}
+                    onResizeEnd={handleResizeEnd}
+                    onAddRow={handleAddRow}
+                    onDeleteRow={(rIdx) => handleDeleteRow(toDataRow(rIdx))}
+                    onAddColumn={handleAddColumn}
+                    onDeleteColumn={handleDeleteColumn}
+                    onMoveRow={rowOrder ? undefined : handleMoveRow}
+                    onMoveColumn={handleMoveColumn}
+                    searchHighlight={searchHighlight}
+                    issueCells={issueCells}
+                  />}
+                </div>
+              </div>
+            );
+          })}
         </div>
+        <RowViewBar
+          data={viewData}
+          view={rowView}
+          visibleRows={countBodyRows(displayData)}
+          totalRows={countBodyRows(data)}
+          onChange={(patch) => setRowView({ ...rowView, ...patch })}
+          onApplySort={handleApplySort}
+          onReset={() => setRowView({ ...DEFAULT_ROW_VIEW, applyToPdf: rowView.applyToPdf })}
+        />
+        {searchOpen && (
+          <SearchPanel
+            data={data}
+            options={searchOptions}
+            matchCount={searchMatches.length}
+            currentIndex={currentMatchIdx}
+            isPatternValid={!searchOptions.query || !!searchPattern}
+            hasSelection={searchScopeCells.size > 0}
+            focusRequest={searchFocus}
+            onChange={handleSearchChange}
+            onNext={() => handleSearchStep(1)}
+            onPrev={() => handleSearchStep(-1)}
+            onReplace={handleReplace}
+            onReplaceAll={handleReplaceAll}
+            onClose={() => setSearchOpen(false)}
+          />
+        )}
         <div className="absolute top-8 left-8 bg-black/95 backdrop-blur-3xl px-5 py-3 rounded-2xl border border-white/10 text-[10px] font-black uppercase tracking-widest text-blue-400 flex items-center gap-4 shadow-2xl pointer-events-none">
           <div className="w-2.5 h-2.5 rounded-full bg-blue-500 animate-pulse"></div><span>SCALE: {(zoom * 100).toFixed(0)}%</span>
         </div>
         
         {/* Панель управления проектом */}
         <div className="absolute bottom-8 left-8 flex flex-col gap-4">
+          <div className="flex gap-4">
+            <button 
+              onClick={undo} 
+              disabled={!canUndo}
+              title="Отменить (Ctrl+Z)" 
+              className="w-16 h-16 bg-slate-700 hover:bg-slate-600 text-white rounded-2xl flex items-center justify-center shadow-2xl transition-all hover:scale-110 active:scale-95 disabled:opacity-30 disabled:hover:scale-100"
+            >
+              <Undo2 size={32} />
+            </button>
+            <button 
+              onClick={redo} 
+              disabled={!canRedo}
+              title="Повторить (Ctrl+Shift+Z)" 
+              className="w-16 h-16 bg-slate-700 hover:bg-slate-600 text-white rounded-2xl flex items-center justify-center shadow-2xl transition-all hover:scale-110 active:scale-95 disabled:opacity-30 disabled:hover:scale-100"
+            >
+              <Redo2 size={32} />
+            </button>
+            <button 
+              onClick={() => { setSearchOpen(!searchOpen); setSearchFocus(n => n + 1); }} 
+              title="Найти и заменить (Ctrl+F)" 
+              className={`w-16 h-16 ${searchOpen ? 'bg-blue-600 hover:bg-blue-700' : 'bg-slate-700 hover:bg-slate-600'} text-white rounded-2xl flex items-center justify-center shadow-2xl transition-all hover:scale-110 active:scale-95`}
+            >
+              <TextSearch size={32} />
+            </button>
+            <button 
+              onClick={() => setShowInvisibles(!showInvisibles)} 
+              title="Невидимые символы типографики (Ctrl+Shift+8)" 
+              className={`w-16 h-16 ${showInvisibles ? 'bg-blue-600 hover:bg-blue-700' : 'bg-slate-700 hover:bg-slate-600'} text-white rounded-2xl flex items-center justify-center shadow-2xl transition-all hover:scale-110 active:scale-95`}
+            >
+              <Pilcrow size={32} />
+            </button>
+          </div>
           <div className="flex gap-4">
             <button 
               onClick={handleSaveProject} 
@@ -431,15 +1111,85 @@ const App: React.FC = () => {
             >
               <FolderOpen size={32} />
             </button>
+            <button 
+              onClick={handleOpenLibrary} 
+              title={`Библиотека проектов (${project.name})`} 
+              className="w-16 h-16 bg-indigo-600 hover:bg-indigo-700 text-white rounded-2xl flex items-center justify-center shadow-2xl transition-all hover:scale-110 active:scale-95"
+            >
+              <Library size={32} />
+            </button>
           </div>
           <div className="flex gap-4">
             <input type="file" ref={fileInputRef} onChange={handleImportExcel} accept=".xlsx, .xls" className="hidden" />
             <button onClick={() => fileInputRef.current?.click()} title="Импорт Excel" className="w-16 h-16 bg-emerald-600 hover:bg-emerald-700 text-white rounded-2xl flex items-center justify-center shadow-2xl transition-all hover:scale-110 active:scale-95"><Upload size={32} /></button>
-            <button onClick={() => exportToPDF(data)} title="Экспорт PDF" className="w-16 h-16 bg-blue-600 hover:bg-blue-700 text-white rounded-2xl flex items-center justify-center shadow-2xl transition-all hover:scale-110 active:scale-95"><FileDown size={32} /></button>
+            <button onClick={handleExportPdf} title="Экспорт PDF" className="w-16 h-16 bg-blue-600 hover:bg-blue-700 text-white rounded-2xl flex items-center justify-center shadow-2xl transition-all hover:scale-110 active:scale-95"><FileDown size={32} /></button>
+            <button onClick={() => exportToExcel(viewData, buildFileName(viewData, 'xlsx'))} title="Экспорт Excel" className="w-16 h-16 bg-teal-600 hover:bg-teal-700 text-white rounded-2xl flex items-center justify-center shadow-2xl transition-all hover:scale-110 active:scale-95"><FileSpreadsheet size={32} /></button>
           </div>
         </div>
       </div>
-      <PropertyPanel data={data} selection={selection} onUpdateStyle={(style) => selection && handleUpdateCellStyle(selection.rowIdx, selection.colIdx, style)} />
+      {selection ? (
+        <PropertyPanel 
+          data={viewData} 
+          selection={selection} 
+          rangeSize={rangeCells.length}
+          onUpdateStyle={(style) => selection && handleUpdateCellStyle(selection.rowIdx, selection.colIdx, style, rangeCells)} 
+          onSetAutoSum={(autoSum) => selection && handleSetAutoSum(selection.rowIdx, autoSum)}
+          onSetCellManual={(manual) => selection && handleSetCellManual(selection.rowIdx, selection.colIdx, manual)}
+          onSetCellsPlain={handleSetCellsPlain}
+          onUpdateColumn={handleUpdateColumn}
+          onCreateHeaderGroup={handleCreateHeaderGroup}
+          onSetHeaderGroupSpan={handleSetHeaderGroupSpan}
+          onWrapHeaderGroup={handleWrapHeaderGroup}
+          onDeleteHeaderGroup={handleDeleteHeaderGroup}
+          onSetPageBreak={(pageBreak) => selection && handleSetPageBreak(selection.rowIdx, pageBreak)}
+          onSetCellSpan={(rowSpan, colSpan) => selection && handleSetCellSpan(selection.rowIdx, selection.colIdx, rowSpan, colSpan)}
+          onAutoMergeColumn={handleAutoMergeColumn}
+          onUnmergeColumn={handleUnmergeColumn}
+          onGroupByColumn={handleGroupByColumn}
+          onClearGrouping={handleClearGrouping}
+          onSetGroupNumbering={handleSetGroupNumbering}
+          issues={issues}
+          onSelectIssue={handleSelectIssue}
+        />
+      ) : (
+        <DocumentPanel 
+          data={data} 
+          onUpdateLegend={handleUpdateLegend}
+          onUpdatePage={handleUpdatePage}
+          onUpdateDocument={handleUpdateDocument}
+          onSetFontFamily={handleSetFontFamily}
+          onAddFont={handleAddFont}
+          onRemoveFont={handleRemoveFont}
+          onUpdateTypography={handleUpdateTypography}
+          issues={issues}
+          onSelectIssue={handleSelectIssue}
+        />
+      )}
+      {pendingImport && (
+        <ImportDialog
+          workbook={pendingImport.workbook}
+          fileName={pendingImport.fileName}
+          columns={data.columns}
+          onCancel={() => setPendingImport(null)}
+          onImport={handleConfirmImport}
+        />
+      )}
+      {libraryEntries && (
+        <LibraryDialog
+          entries={libraryEntries}
+          currentId={project.id}
+          currentName={project.name}
+          onClose={() => setLibraryEntries(null)}
+          onSaveCurrent={handleSaveToLibrary}
+          onOpen={handleOpenFromLibrary}
+          onDuplicate={handleDuplicateInLibrary}
+          onRename={handleRenameInLibrary}
+          onDelete={handleDeleteFromLibrary}
+        />
+      )}
+      {recovery && (
+        <RecoveryDialog session={recovery} onRestore={handleRestoreSession} onDiscard={handleDiscardSession} />
+      )}
     </div>
   );
 };
@@ -0,0 +1,65 @@
+import React from 'react';
+import { COLORS } from '../constants';
+import { DocumentBlockLayout, TextLayout, LAYOUT_UNITS } from '../services/layoutService';
+import { fillTemplate, TemplateValues, DOCUMENT_UNITS } from '../services/documentService';
+
+interface DocumentHeaderProps {
+  blocks: DocumentBlockLayout;
+  values: TemplateValues;
+  showTitle: boolean;
+  pxPerMm: number;
+}
+
+interface DocumentFooterProps {
+  blocks: DocumentBlockLayout;
+  values: TemplateValues;
+  pxPerMm: number;
+}
+
+const renderText = (text: TextLayout, mm: (v: number) => string) => (
+  <div style={{ fontSize: mm(text.font.size), lineHeight: mm(text.lineHeight), fontWeight: text.font.bold ? 700 : 400 }}>
+    {text.lines.map((line, i) => <div key={i} className="whitespace-pre">{line || '\u00A0'}</div>)}
+  </div>
+);
+
+/** «Приложение №» caption and the document title above the table, sized like the PDF. */
+export const DocumentHeader: React.FC<DocumentHeaderProps> = ({ blocks, values, showTitle, pxPerMm }) => {
+  const mm = (v: number) => `${v * pxPerMm}px`;
+  const caption = fillTemplate(blocks.settings.headerTemplate, values);
+
+  return (
+    <>
+      {blocks.captionHeight > 0 && (
+        <div className="text-right whitespace-pre" style={{ height: mm(blocks.captionHeight), fontSize: mm(DOCUMENT_UNITS.captionFontSize), lineHeight: mm(DOCUMENT_UNITS.captionFontSize * LAYOUT_UNITS.lineHeight), color: COLORS.text }}>
+          {caption}
+        </div>
+      )}
+      {showTitle && blocks.titleHeight > 0 && (
+        <div className="text-center" style={{ height: mm(blocks.titleHeight), color: COLORS.text }}>
+          {renderText(blocks.title, mm)}
+          {blocks.subtitle.lines.length > 0 && (
+            <div style={{ marginTop: blocks.title.lines.length ? mm(DOCUMENT_UNITS.subtitleGap) : 0 }}>{renderText(blocks.subtitle, mm)}</div>
+          )}
+        </div>
+      )}
+    </>
+  );
+};
+
+/** Running footer pinned to the bottom margin of the sheet. */
+export const DocumentFooter: React.FC<DocumentFooterProps> = ({ blocks, values, pxPerMm }) => {
+  if (blocks.footerHeight === 0) return null;
+  const mm = (v: number) => `${v * pxPerMm}px`;
+  const { footerLeft, footerCenter, footerRight } = blocks.settings;
+
+  return (
+    <div
+      className="grid grid-cols-3 whitespace-pre"
+      style={{ fontSize: mm(DOCUMENT_UNITS.footerFontSize), lineHeight: mm(DOCUMENT_UNITS.footerFontSize * LAYOUT_UNITS.lineHeight), color: COLORS.footerText }}
+    >
+      <span className="text-left">{fillTemplate(footerLeft, values)}</span>
+      <span className="text-center">{fillTemplate(footerCenter, values)}</span>
+      <span className="text-right">{fillTemplate(footerRight, values)}</span>
+    </div>
+  );
+};
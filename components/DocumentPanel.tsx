@@ -0,0 +1,328 @@
+import React, { useState } from 'react';
+import { TableData, LegendSettings, LegendPosition, ProjectFont, FontVariant, PageSettings, PageFormat, PageOrientation, PageMargins, DocumentSettings, TypographySettings, TypographyRuleId } from '../types';
+import { ListChecks, Type, Upload, Trash2, FileText, Heading, Pilcrow } from 'lucide-react';
+import { DEFAULT_LEGEND, PAGE_FORMATS } from '../constants';
+import { getPageSettings } from '../services/pageService';
+import { getDocumentSettings, TEMPLATE_FIELDS } from '../services/documentService';
+import { DEFAULT_FONT_FAMILY, FONT_VARIANTS, FONT_VARIANT_LABELS, getFontFamilies, readFontFile } from '../services/fontService';
+import { CellIssue } from '../services/validationService';
+import { TYPOGRAPHY_RULES } from '../services/formatService';
+import { getTypographySettings, runTypographyChecks, showInvisibles, TypographyCheckResult, TYPOGRAPHY_RULE_COLORS } from '../services/typographyService';
+import { IssuesPanel } from './IssuesPanel';
+
+interface DocumentPanelProps {
+  data: TableData;
+  onUpdateLegend: (patch: Partial<LegendSettings>) => void;
+  onUpdatePage: (patch: Partial<PageSettings>) => void;
+  onUpdateDocument: (patch: Partial<DocumentSettings>) => void;
+  onSetFontFamily: (family: string) => void;
+  onAddFont: (font: ProjectFont) => void;
+  onRemoveFont: (fontId: string) => void;
+  onUpdateTypography: (typography: TypographySettings | undefined) => void; // undefined — встроенный профиль
+  issues: CellIssue[];
+  onSelectIssue: (issue: CellIssue) => void;
+}
+
+const LEGEND_POSITIONS: { value: LegendPosition; label: string }[] = [
+  { value: 'below', label: 'Под таблицей' },
+  { value: 'bottom-left', label: 'Угол слева' },
+  { value: 'bottom-right', label: 'Угол справа' },
+];
+
+const PAGE_FORMAT_OPTIONS: { value: PageFormat; label: string }[] = [
+  ...(Object.keys(PAGE_FORMATS) as Exclude<PageFormat, 'custom'>[]).map(f => ({ value: f, label: PAGE_FORMATS[f].label })),
+  { value: 'custom', label: 'Свой' },
+];
+
+const ORIENTATIONS: { value: PageOrientation; label: string }[] = [
+  { value: 'landscape', label: 'Альбомная' },
+  { value: 'portrait', label: 'Книжная' },
+];
+
+const DOCUMENT_FIELDS: { key: 'title' | 'subtitle' | 'appendix' | 'organization'; label: string }[] = [
+  { key: 'title', label: 'Заголовок' },
+  { key: 'subtitle', label: 'Подзаголовок' },
+  { key: 'appendix', label: 'Приложение №' },
+  { key: 'organization', label: 'Организация' },
+];
+
+const TEMPLATE_INPUTS: { key: 'headerTemplate' | 'footerLeft' | 'footerCenter' | 'footerRight'; label: string }[] = [
+  { key: 'headerTemplate', label: 'Над заголовком' },
+  { key: 'footerLeft', label: 'Внизу слева' },
+  { key: 'footerCenter', label: 'Внизу по центру' },
+  { key: 'footerRight', label: 'Внизу справа' },
+];
+
+const MARGIN_FIELDS: { key: keyof PageMargins; label: string }[] = [
+  { key: 'top', label: 'Сверху' },
+  { key: 'bottom', label: 'Снизу' },
+  { key: 'left', label: 'Слева' },
+  { key: 'right', label: 'Справа' },
+];
+
+const toggleClass = (active: boolean) => `py-2 rounded border text-[10px] font-bold uppercase transition-all ${
+  active
+    ? 'bg-blue-600 border-blue-600 text-white'
+    : 'bg-transparent border-white/10 text-gray-400 hover:border-white/20'
+}`;
+
+const inputClass = "bg-black/40 border border-white/5 rounded-lg p-2 text-[10px] font-bold text-white outline-none";
+
+const WORD_LISTS: { key: 'prepositions' | 'leadAbbreviations' | 'trailAbbreviations'; label: string }[] = [
+  { key: 'prepositions', label: 'Предлоги и союзы' },
+  { key: 'leadAbbreviations', label: 'Сокращения перед словом' },
+  { key: 'trailAbbreviations', label: 'Сокращения после числа' },
+];
+
+const parseWordList = (text: string) => text.split(/[\s,;]+/).filter(Boolean);
+
+/** Project-level settings shown in the side panel while no cell is selected. */
+export const DocumentPanel: React.FC<DocumentPanelProps> = ({ data, onUpdateLegend, onUpdatePage, onUpdateDocument, onSetFontFamily, onAddFont, onRemoveFont, onUpdateTypography, issues, onSelectIssue }) => {
+  const legend = data.legend || DEFAULT_LEGEND;
+  const page = getPageSettings(data);
+  const documentSettings = getDocumentSettings(data);
+  const fonts = data.fonts || [];
+  const [newFamily, setNewFamily] = useState('');
+  const [newVariant, setNewVariant] = useState<FontVariant>('normal');
+  const typography = getTypographySettings(data);
+  const [checkResults, setCheckResults] = useState<TypographyCheckResult[] | null>(null);
+  const failedChecks = checkResults?.filter(r => !r.passed) || [];
+
+  const toggleRule = (id: TypographyRuleId, enabled: boolean) => onUpdateTypography({
+    ...typography,
+    disabled: enabled ? typography.disabled.filter(r => r !== id) : [...typography.disabled, id]
+  });
+
+  const handleFontFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    const family = newFamily.trim() || file.name.replace(/\.(ttf|otf)$/i, '').replace(/[-_](regular|bold|italic|bolditalic)$/i, '');
+    try {
+      const fontData = await readFontFile(file);
+      onAddFont({ id: `font-${Date.now()}`, family, variant: newVariant, fileName: file.name, data: fontData });
+      setNewFamily(family);
+    } catch (err) {
+      console.error(err);
+      alert("Ошибка при чтении файла шрифта.");
+    }
+  };
+
+  return (
+    <div className="w-64 bg-[#1a1a1a] border-l border-white/10 p-6 flex flex-col gap-6 shadow-2xl z-50 overflow-y-auto scrollbar-hide">
+      <div className="flex flex-col gap-1">
+        <h3 className="text-[10px] font-black uppercase tracking-widest text-blue-500">Документ</h3>
+        <span className="text-[8px] text-gray-500 uppercase font-bold">Выберите ячейку для редактирования стиля</span>
+      </div>
+
+      <IssuesPanel data={data} issues={issues} selection={null} onSelectIssue={onSelectIssue} />
+
+      <div className="flex flex-col gap-3 pt-4 border-t border-white/5">
+        <label className="text-[9px] font-bold uppercase text-gray-400 flex items-center gap-2">
+          <Heading size={12} className="text-gray-600" /> Шапка и колонтитулы
+        </label>
+        {DOCUMENT_FIELDS.map(f => (
+          <input
+            key={f.key}
+            value={documentSettings[f.key]}
+            onChange={(e) => onUpdateDocument({ [f.key]: e.target.value })}
+            placeholder={f.label}
+            title={f.label}
+            className={inputClass}
+          />
+        ))}
+        <label className="flex items-center gap-2 text-[9px] font-bold uppercase text-gray-400">
+          <input type="checkbox" checked={documentSettings.repeatTitle} onChange={(e) => onUpdateDocument({ repeatTitle: e.target.checked })} />
+          Заголовок на каждом листе
+        </label>
+        {TEMPLATE_INPUTS.map(f => (
+          <label key={f.key} className="flex flex-col gap-1">
+            <span className="text-[8px] text-gray-500 uppercase font-bold">{f.label}</span>
+            <input
+              value={documentSettings[f.key]}
+              onChange={(e) => onUpdateDocument({ [f.key]: e.target.value })}
+              className={inputClass}
+            />
+          </label>
+        ))}
+        <span className="text-[8px] text-gray-600 font-bold leading-relaxed">
+          {TEMPLATE_FIELDS.map(f => `{${f.key}} — ${f.label}`).join(', ')}
+        </span>
+      </div>
+
+      <div className="flex flex-col gap-3 pt-4 border-t border-white/5">
+        <label className="text-[9px] font-bold uppercase text-gray-400 flex items-center gap-2">
+          <FileText size={12} className="text-gray-600" /> Формат листа
+        </label>
+        <div className="grid grid-cols-4 gap-2">
+          {PAGE_FORMAT_OPTIONS.map(f => (
+            <button key={f.value} onClick={() => onUpdatePage({ format: f.value })} className={toggleClass(page.format === f.value)}>
+              {f.label}
+            </button>
+          ))}
+        </div>
+        {page.format === 'custom' && (
+          <div className="grid grid-cols-2 gap-2">
+            {(['width', 'height'] as const).map(key => (
+              <label key={key} className="flex flex-col gap-1">
+                <span className="text-[8px] text-gray-500 uppercase font-bold">{key === 'width' ? 'Ширина, мм' : 'Высота, мм'}</span>
+                <input
+                  type="number"
+                  min={50}
+                  value={page[key]}
+                  onChange={(e) => onUpdatePage({ [key]: Math.max(50, Number(e.target.value) || 0) })}
+                  className={inputClass}
+                />
+              </label>
+            ))}
+          </div>
+        )}
+        <div className="grid grid-cols-2 gap-2">
+          {ORIENTATIONS.map(o => (
+            <button key={o.value} onClick={() => onUpdatePage({ orientation: o.value })} className={toggleClass(page.orientation === o.value)}>
+              {o.label}
+            </button>
+          ))}
+        </div>
+        <div className="grid grid-cols-2 gap-2">
+          {MARGIN_FIELDS.map(f => (
+            <label key={f.key} className="flex flex-col gap-1">
+              <span className="text-[8px] text-gray-500 uppercase font-bold">Поле {f.label.toLowerCase()}, мм</span>
+              <input
+                type="number"
+                min={0}
+                step={0.5}
+                value={page.margins[f.key]}
+                onChange={(e) => onUpdatePage({ margins: { ...page.margins, [f.key]: Math.max(0, Number(e.target.value) || 0) } })}
+                className={inputClass}
+              />
+            </label>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex flex-col gap-3 pt-4 border-t border-white/5">
+        <label className="text-[9px] font-bold uppercase text-gray-400 flex items-center gap-2">
+          <ListChecks size={12} className="text-gray-600" /> Легенда категорий
+        </label>
+        <div className="grid grid-cols-2 gap-2">
+          <button onClick={() => onUpdateLegend({ enabled: true })} className={toggleClass(legend.enabled)}>Показать</button>
+          <button onClick={() => onUpdateLegend({ enabled: false })} className={toggleClass(!legend.enabled)}>Скрыть</button>
+        </div>
+        {legend.enabled && (
+          <>
+            <input
+              value={legend.title}
+              onChange={(e) => onUpdateLegend({ title: e.target.value })}
+              placeholder="Заголовок легенды"
+              className={inputClass}
+            />
+            <div className="grid grid-cols-1 gap-2">
+              {LEGEND_POSITIONS.map(p => (
+                <button key={p.value} onClick={() => onUpdateLegend({ position: p.value })} className={toggleClass(legend.position === p.value)}>
+                  {p.label}
+                </button>
+              ))}
+            </div>
+          </>
+        )}
+      </div>
+
+      <div className="flex flex-col gap-3 pt-4 border-t border-white/5">
+        <label className="text-[9px] font-bold uppercase text-gray-400 flex items-center gap-2">
+          <Type size={12} className="text-gray-600" /> Шрифт документа
+        </label>
+        <select
+          value={data.fontFamily || DEFAULT_FONT_FAMILY}
+          onChange={(e) => onSetFontFamily(e.target.value)}
+          className={inputClass}
+        >
+          {getFontFamilies(fonts).map(family => <option key={family} value={family}>{family}</option>)}
+        </select>
+        {fonts.length > 0 && (
+          <div className="flex flex-col gap-1">
+            {fonts.map(font => (
+              <div key={font.id} className="flex items-center justify-between gap-2 bg-black/20 rounded px-2 py-1">
+                <span className="text-[9px] text-gray-300 font-bold truncate" title={font.fileName}>
+                  {font.family} · {FONT_VARIANT_LABELS[font.variant]}
+                </span>
+                <button onClick={() => onRemoveFont(font.id)} className="p-1 text-gray-500 hover:text-red-500" title="Удалить шрифт">
+                  <Trash2 size={10} />
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+        <input
+          value={newFamily}
+          onChange={(e) => setNewFamily(e.target.value)}
+          placeholder="Название семейства"
+          className={inputClass}
+        />
+        <select value={newVariant} onChange={(e) => setNewVariant(e.target.value as FontVariant)} className={inputClass}>
+          {FONT_VARIANTS.map(v => <option key={v} value={v}>{FONT_VARIANT_LABELS[v]}</option>)}
+        </select>
+        <label className="py-2 rounded border border-white/10 text-[10px] font-bold uppercase text-gray-400 hover:border-white/20 flex items-center justify-center gap-2 cursor-pointer">
+          <Upload size={12} /> Загрузить TTF
+          <input type="file" accept=".ttf,.otf" onChange={handleFontFile} className="hidden" />
+        </label>
+        <span className="text-[8px] text-gray-600 uppercase font-bold">Шрифты сохраняются в файле проекта и встраиваются в PDF без сети</span>
+      </div>
+
+      <div className="flex flex-col gap-3 pt-4 border-t border-white/5">
+        <label className="text-[9px] font-bold uppercase text-gray-400 flex items-center gap-2">
+          <Pilcrow size={12} className="text-gray-600" /> Типографика
+        </label>
+        <div className="flex flex-col gap-1">
+          {TYPOGRAPHY_RULES.map(rule => (
+            <label key={rule.id} className="flex items-center gap-2 text-[9px] font-bold text-gray-400 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={!typography.disabled.includes(rule.id)}
+                onChange={(e) => toggleRule(rule.id, e.target.checked)}
+              />
+              {/* Цвет правила в режиме невидимых символов */}
+              <span className="w-2 h-2 rounded-full shrink-0" style={{ backgroundColor: TYPOGRAPHY_RULE_COLORS[rule.id] }} />
+              {rule.label}
+            </label>
+          ))}
+        </div>
+        {WORD_LISTS.map(list => (
+          <label key={list.key} className="flex flex-col gap-1">
+            <span className="text-[8px] text-gray-500 uppercase font-bold">{list.label}</span>
+            {/* Список применяется при выходе из поля, чтобы ввод запятых и пробелов не сбивался */}
+            <textarea
+              key={typography[list.key].join(',')}
+              defaultValue={typography[list.key].join(', ')}
+              onBlur={(e) => onUpdateTypography({ ...typography, [list.key]: parseWordList(e.target.value) })}
+              rows={3}
+              className={`${inputClass} resize-none`}
+            />
+          </label>
+        ))}
+        <div className="grid grid-cols-2 gap-2">
+          <button onClick={() => onUpdateTypography(undefined)} disabled={!data.typography} className={`${toggleClass(false)} disabled:opacity-30`}>
+            По умолчанию
+          </button>
+          <button onClick={() => setCheckResults(runTypographyChecks())} className={toggleClass(false)}>
+            Самопроверка
+          </button>
+        </div>
+        {checkResults && (
+          <div className="flex flex-col gap-1 bg-black/20 p-2 rounded">
+            <span className={`text-[9px] font-bold uppercase ${failedChecks.length ? 'text-red-400' : 'text-emerald-400'}`}>
+              Пройдено {checkResults.length - failedChecks.length} из {checkResults.length}
+            </span>
+            {failedChecks.map((r, i) => (
+              <div key={i} className="flex flex-col text-[9px] font-mono text-gray-400 border-t border-white/5 pt-1">
+                <span className="text-gray-500">{r.check.rule}: {showInvisibles(r.check.input)}</span>
+                <span className="text-emerald-400">ожидалось: {showInvisibles(r.check.expected)}</span>
+                <span className="text-red-400">получено: {showInvisibles(r.actual)}</span>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,208 @@
+import React, { useState, useMemo, useEffect } from 'react';
+import * as XLSX from 'xlsx';
+import { TableColumn, TableRow } from '../types';
+import {
+  getSheetRows,
+  getSheetMerges,
+  detectHeaderRow,
+  detectDataStart,
+  getSourceColumns,
+  suggestMapping,
+  saveMapping,
+  buildImportedRows,
+  ColumnMapping
+} from '../services/importService';
+import { getColumnMeta } from '../services/columnService';
+import { FileSpreadsheet, X, AlertTriangle } from 'lucide-react';
+
+interface ImportDialogProps {
+  workbook: XLSX.WorkBook;
+  fileName: string;
+  columns: TableColumn[];
+  onCancel: () => void;
+  onImport: (rows: TableRow[]) => void;
+}
+
+const PREVIEW_ROWS = 5;
+const HEADER_CANDIDATES = 15;
+
+const labelClass = "text-[9px] font-bold uppercase text-gray-400";
+const selectClass = "bg-black/40 border border-white/5 rounded-lg p-2 text-[10px] font-bold text-white outline-none";
+
+export const ImportDialog: React.FC<ImportDialogProps> = ({ workbook, fileName, columns, onCancel, onImport }) => {
+  const [sheetName, setSheetName] = useState(workbook.SheetNames[0]);
+  const sheetRows = useMemo(() => getSheetRows(workbook, sheetName), [workbook, sheetName]);
+  const sheetMerges = useMemo(() => getSheetMerges(workbook, sheetName), [workbook, sheetName]);
+  const [headerRowIdx, setHeaderRowIdx] = useState(() => detectHeaderRow(sheetRows));
+  const dataStartIdx = useMemo(() => detectDataStart(sheetRows, headerRowIdx), [sheetRows, headerRowIdx]);
+  const sources = useMemo(() => getSourceColumns(sheetRows, headerRowIdx, dataStartIdx), [sheetRows, headerRowIdx, dataStartIdx]);
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [fromSaved, setFromSaved] = useState(false);
+  const [rememberMapping, setRememberMapping] = useState(true);
+  const [firstRowIsTotal, setFirstRowIsTotal] = useState(true);
+
+  useEffect(() => { setHeaderRowIdx(detectHeaderRow(sheetRows)); }, [sheetRows]);
+
+  useEffect(() => {
+    const suggestion = suggestMapping(sources, columns);
+    setMapping(suggestion.mapping);
+    setFromSaved(suggestion.fromSaved);
+  }, [sources, columns]);
+
+  const result = useMemo(
+    () => buildImportedRows(sheetRows, dataStartIdx, sources, columns, mapping, { firstRowIsTotal, merges: sheetMerges }),
+    [sheetRows, sheetMerges, dataStartIdx, sources, columns, mapping, firstRowIsTotal]
+  );
+
+  const mappableColumns = columns.filter(c => getColumnMeta(c).type !== 'index');
+  const previewColumns = mappableColumns.filter(c => mapping[c.id] !== null && mapping[c.id] !== undefined);
+
+  const handleConfirm = () => {
+    if (rememberMapping) saveMapping(sources, mapping);
+    onImport(result.rows);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/70 z-[200] flex items-center justify-center" onMouseDown={(e) => e.stopPropagation()}>
+      <div className="bg-[#1a1a1a] border border-white/10 rounded-2xl shadow-2xl w-[960px] max-w-[95vw] max-h-[90vh] flex flex-col text-slate-100">
+        <div className="flex items-center justify-between px-6 py-4 border-b border-white/5">
+          <div className="flex items-center gap-3">
+            <FileSpreadsheet size={18} className="text-emerald-500" />
+            <div className="flex flex-col">
+              <h3 className="text-[10px] font-black uppercase tracking-widest text-emerald-500">Импорт Excel</h3>
+              <span className="text-[8px] text-gray-500 uppercase font-bold">{fileName}</span>
+            </div>
+          </div>
+          <button onClick={onCancel} className="p-2 text-gray-500 hover:text-white"><X size={16} /></button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 flex flex-col gap-6">
+          <div className="grid grid-cols-3 gap-4">
+            <label className="flex flex-col gap-2">
+              <span className={labelClass}>Лист</span>
+              <select value={sheetName} onChange={(e) => setSheetName(e.target.value)} className={selectClass}>
+                {workbook.SheetNames.map(name => <option key={name} value={name}>{name}</option>)}
+              </select>
+            </label>
+            <label className="flex flex-col gap-2">
+              <span className={labelClass}>Строка заголовка</span>
+              <select value={headerRowIdx} onChange={(e) => setHeaderRowIdx(Number(e.target.value))} className={selectClass}>
+                {sheetRows.slice(0, HEADER_CANDIDATES).map((row, i) => (
+                  <option key={i} value={i}>
+                    {i + 1}: {row.map(c => c?.toString() || '').filter(Boolean).join(' | ').slice(0, 60) || '(пусто)'}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <div className="flex flex-col gap-2 justify-end">
+              <label className="flex items-center gap-2 text-[9px] font-bold uppercase text-gray-400">
+                <input type="checkbox" checked={firstRowIsTotal} onChange={(e) => setFirstRowIsTotal(e.target.checked)} />
+                Первая строка данных — итог
+              </label>
+              <span className="text-[8px] text-gray-600 uppercase font-bold">Данные со строки {dataStartIdx + 1}</span>
+            </div>
+          </div>
+
+          <div className="flex flex-col gap-3">
+            <div className="flex items-center justify-between">
+              <span className={labelClass}>Сопоставление колонок</span>
+              {fromSaved && <span className="text-[8px] text-emerald-500/70 font-bold uppercase">Сохраненное сопоставление для этого формата</span>}
+            </div>
+            <div className="grid grid-cols-2 gap-x-6 gap-y-2">
+              {mappableColumns.map(col => (
+                <div key={col.id} className="flex items-center gap-3">
+                  <span className="w-1/2 text-[10px] font-bold text-gray-300 truncate" title={col.title}>{col.title.replace(/\n/g, ' ')}</span>
+                  <select
+                    value={mapping[col.id] ?? ''}
+                    onChange={(e) => setMapping({ ...mapping, [col.id]: e.target.value === '' ? null : Number(e.target.value) })}
+                    className={`${selectClass} w-1/2 ${mapping[col.id] === null || mapping[col.id] === undefined ? 'text-gray-500' : ''}`}
+                  >
+                    <option value="">— не заполнять —</option>
+                    {sources.map(src => (
+                      <option key={src.index} value={src.index}>{src.letter}: {src.title || '(без заголовка)'}</option>
+                    ))}
+                  </select>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div className="flex flex-col gap-3">
+            <span className={labelClass}>Предпросмотр</span>
+            <div className="overflow-x-auto border border-white/5 rounded-lg">
+              <table className="w-full text-[10px] border-collapse">
+                <thead>
+                  <tr className="bg-black/40">
+                    {previewColumns.map(col => (
+                      <th key={col.id} className="px-2 py-1 text-left font-bold text-gray-400 border-b border-white/5 whitespace-nowrap">
+                        {col.title.replace(/\n/g, ' ')}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {result.rows.slice(0, PREVIEW_ROWS).map(row => (
+                    <tr key={row.id} className={row.isTotal ? 'bg-white/10 font-bold' : ''}>
+                      {previewColumns.map(col => {
+                        const cIdx = columns.indexOf(col);
+                        return (
+                          <td key={col.id} className="px-2 py-1 border-b border-white/5 text-gray-300 max-w-[180px] truncate">
+                            {row.cells[cIdx]?.value}
+                          </td>
+                        );
+                      })}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+
+          <div className="flex flex-col gap-2 bg-black/20 p-4 rounded-lg">
+            <span className={labelClass}>Итог импорта</span>
+            <span className="text-[10px] text-gray-300 font-bold">
+              Строк: {result.summary.importedRows} (итоговых: {result.summary.totalRows}), пропущено пустых: {result.summary.skippedEmptyRows}
+              {result.summary.mergedCells > 0 && `, объединённых ячеек: ${result.summary.mergedCells}`}
+            </span>
+            {result.summary.unmappedSources.length > 0 && (
+              <div className="flex items-start gap-2 text-[10px] text-amber-400 font-bold">
+                <AlertTriangle size={12} className="mt-0.5 shrink-0" />
+                <span>
+                  Не будут импортированы колонки с данными:{' '}
+                  {result.summary.unmappedSources.map(s => `${s.column.letter} «${s.column.title || 'без заголовка'}» (${s.filledCells})`).join(', ')}
+                </span>
+              </div>
+            )}
+            {result.summary.unmappedTargets.length > 0 && (
+              <div className="flex items-start gap-2 text-[10px] text-amber-400 font-bold">
+                <AlertTriangle size={12} className="mt-0.5 shrink-0" />
+                <span>
+                  Останутся пустыми: {result.summary.unmappedTargets.map(c => `«${c.title.replace(/\n/g, ' ')}»`).join(', ')}
+                </span>
+              </div>
+            )}
+          </div>
+        </div>
+
+        <div className="flex items-center justify-between px-6 py-4 border-t border-white/5">
+          <label className="flex items-center gap-2 text-[9px] font-bold uppercase text-gray-400">
+            <input type="checkbox" checked={rememberMapping} onChange={(e) => setRememberMapping(e.target.checked)} />
+            Запомнить сопоставление для этого формата
+          </label>
+          <div className="flex gap-3">
+            <button onClick={onCancel} className="px-4 py-2 rounded border border-white/10 text-[10px] font-bold uppercase text-gray-400 hover:border-white/20">
+              Отмена
+            </button>
+            <button
+              onClick={handleConfirm}
+              disabled={result.rows.length === 0}
+              className="px-4 py-2 rounded bg-emerald-600 hover:bg-emerald-700 disabled:opacity-30 text-[10px] font-bold uppercase text-white"
+            >
+              Заменить строки таблицы
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
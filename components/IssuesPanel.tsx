@@ -0,0 +1,55 @@
+import React from 'react';
+import { TableData, Selection } from '../types';
+import { CellIssue } from '../services/validationService';
+import { ShieldAlert, ShieldCheck } from 'lucide-react';
+
+interface IssuesPanelProps {
+  data: TableData;
+  issues: CellIssue[];
+  selection: Selection;
+  onSelectIssue: (issue: CellIssue) => void;
+}
+
+const MAX_SHOWN_ISSUES = 100;
+
+/** Clickable list of cells that fail the column checks; a click selects the cell. */
+export const IssuesPanel: React.FC<IssuesPanelProps> = ({ data, issues, selection, onSelectIssue }) => (
+  <div className="flex flex-col gap-3">
+    <label className="text-[9px] font-bold uppercase text-gray-400 flex items-center gap-2">
+      {issues.length > 0
+        ? <ShieldAlert size={12} className="text-red-500" />
+        : <ShieldCheck size={12} className="text-gray-600" />}
+      Проверка данных
+      {issues.length > 0 && <span className="ml-auto text-red-400 tabular-nums">{issues.length}</span>}
+    </label>
+    {issues.length === 0 ? (
+      <div className="text-[8px] text-gray-500 uppercase font-bold tracking-tight bg-black/20 p-2 rounded italic">
+        Ошибок не найдено
+      </div>
+    ) : (
+      <div className="flex flex-col gap-1 max-h-64 overflow-y-auto scrollbar-hide">
+        {issues.slice(0, MAX_SHOWN_ISSUES).map(issue => {
+          const isActive = selection?.rowIdx === issue.rowIdx && selection?.colIdx === issue.colIdx;
+          const title = data.columns[issue.colIdx]?.title.replace(/\n/g, ' ') || `Колонка ${issue.colIdx + 1}`;
+          return (
+            <button
+              key={`${issue.rowIdx}:${issue.colIdx}`}
+              onClick={() => onSelectIssue(issue)}
+              className={`flex flex-col items-start gap-0.5 p-2 rounded border text-left transition-all ${
+                isActive ? 'border-red-500/60 bg-red-500/10' : 'border-white/5 hover:border-white/20'
+              }`}
+            >
+              <span className="text-[8px] text-gray-500 uppercase font-bold truncate max-w-full">
+                Строка {issue.rowIdx + 1} · {title}
+              </span>
+              <span className="text-[10px] text-red-300 font-bold">{issue.message}</span>
+            </button>
+          );
+        })}
+        {issues.length > MAX_SHOWN_ISSUES && (
+          <span className="text-[8px] text-gray-500 uppercase font-bold p-2">…и ещё {issues.length - MAX_SHOWN_ISSUES}</span>
+        )}
+      </div>
+    )}
+  </div>
+);
@@ -0,0 +1,42 @@
+import React from 'react';
+import { COLORS } from '../constants';
+import { LEGEND_UNITS, LegendItem } from '../services/legendService';
+
+interface LegendBlockProps {
+  title: string;
+  items: LegendItem[];
+  pxPerMm: number;
+  boxed?: boolean;
+}
+
+export const LegendBlock: React.FC<LegendBlockProps> = ({ title, items, pxPerMm, boxed }) => {
+  if (items.length === 0) return null;
+  const mm = (v: number) => `${v * pxPerMm}px`;
+
+  return (
+    <div
+      className="flex flex-wrap items-center bg-white"
+      style={{
+        columnGap: mm(LEGEND_UNITS.itemGap),
+        rowGap: mm(LEGEND_UNITS.rowGap),
+        padding: boxed ? mm(LEGEND_UNITS.padding) : 0,
+        border: boxed ? `${0.1 * pxPerMm}px solid ${COLORS.border}` : 'none',
+        color: COLORS.text,
+        lineHeight: 1
+      }}
+    >
+      {title && (
+        <span style={{ fontSize: mm(LEGEND_UNITS.titleFontSize), fontWeight: 700 }}>{title}</span>
+      )}
+      {items.map(item => (
+        <span key={item.color} className="flex items-center" style={{ gap: mm(LEGEND_UNITS.circleGap) }}>
+          <span
+            className="rounded-full inline-block shrink-0"
+            style={{ width: mm(LEGEND_UNITS.circleSize), height: mm(LEGEND_UNITS.circleSize), backgroundColor: item.color }}
+          />
+          <span style={{ fontSize: mm(LEGEND_UNITS.fontSize) }}>{item.label}</span>
+        </span>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,120 @@
+import React, { useState } from 'react';
+import { LibraryEntry } from '../services/storageService';
+import { Library, X, Copy, Pencil, Trash2, FolderOpen, Check } from 'lucide-react';
+
+interface LibraryDialogProps {
+  entries: LibraryEntry[];
+  currentId: string | null;
+  currentName: string;
+  onClose: () => void;
+  onSaveCurrent: (name: string) => void;
+  onOpen: (id: string) => void;
+  onDuplicate: (id: string) => void;
+  onRename: (id: string, name: string) => void;
+  onDelete: (id: string) => void;
+}
+
+const inputClass = "bg-black/40 border border-white/5 rounded-lg p-2 text-[10px] font-bold text-white outline-none focus:border-indigo-500";
+const iconButtonClass = "p-2 rounded text-gray-500 hover:text-white hover:bg-white/5";
+
+export const formatSavedAt = (time: number) =>
+  new Date(time).toLocaleString('ru-RU', { day: '2-digit', month: '2-digit', year: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+export const LibraryDialog: React.FC<LibraryDialogProps> = ({
+  entries,
+  currentId,
+  currentName,
+  onClose,
+  onSaveCurrent,
+  onOpen,
+  onDuplicate,
+  onRename,
+  onDelete
+}) => {
+  const [name, setName] = useState(currentName);
+  const [renaming, setRenaming] = useState<{ id: string; name: string } | null>(null);
+
+  const commitRename = () => {
+    if (renaming && renaming.name.trim()) onRename(renaming.id, renaming.name.trim());
+    setRenaming(null);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/70 z-[200] flex items-center justify-center" onMouseDown={(e) => e.stopPropagation()}>
+      <div className="bg-[#1a1a1a] border border-white/10 rounded-2xl shadow-2xl w-[560px] max-w-[95vw] max-h-[90vh] flex flex-col text-slate-100">
+        <div className="flex items-center justify-between px-6 py-4 border-b border-white/5">
+          <div className="flex items-center gap-3">
+            <Library size={18} className="text-indigo-400" />
+            <div className="flex flex-col">
+              <h3 className="text-[10px] font-black uppercase tracking-widest text-indigo-400">Библиотека проектов</h3>
+              <span className="text-[8px] text-gray-500 uppercase font-bold">Хранится в этом браузере</span>
+            </div>
+          </div>
+          <button onClick={onClose} className="p-2 text-gray-500 hover:text-white"><X size={16} /></button>
+        </div>
+
+        <div className="flex flex-col gap-2 px-6 py-4 border-b border-white/5">
+          <span className="text-[9px] font-bold uppercase text-gray-400">
+            {currentId ? 'Текущий проект' : 'Текущий проект не сохранён в библиотеке'}
+          </span>
+          <div className="flex gap-3">
+            <input
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              onKeyDown={(e) => { if (e.key === 'Enter' && name.trim()) onSaveCurrent(name.trim()); }}
+              className={`${inputClass} flex-1`}
+            />
+            <button
+              onClick={() => onSaveCurrent(name.trim())}
+              disabled={!name.trim()}
+              className="px-4 py-2 rounded bg-indigo-600 hover:bg-indigo-700 disabled:opacity-30 text-[10px] font-bold uppercase text-white"
+            >
+              Сохранить
+            </button>
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 flex flex-col gap-1">
+          {entries.length === 0 && (
+            <span className="text-[10px] text-gray-500 font-bold text-center py-6">Сохранённых проектов пока нет</span>
+          )}
+          {entries.map(entry => (
+            <div
+              key={entry.id}
+              className={`flex items-center gap-3 px-3 py-2 rounded-lg ${entry.id === currentId ? 'bg-indigo-500/10 border border-indigo-500/30' : 'border border-transparent hover:bg-white/5'}`}
+            >
+              {renaming?.id === entry.id ? (
+                <input
+                  autoFocus
+                  value={renaming.name}
+                  onChange={(e) => setRenaming({ id: entry.id, name: e.target.value })}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') commitRename();
+                    if (e.key === 'Escape') setRenaming(null);
+                  }}
+                  onBlur={commitRename}
+                  className={`${inputClass} flex-1`}
+                />
+              ) : (
+                <button onDoubleClick={() => onOpen(entry.id)} className="flex-1 flex flex-col items-start text-left min-w-0">
+                  <span className="text-[11px] font-bold text-white truncate max-w-full">{entry.name}</span>
+                  <span className="text-[8px] text-gray-500 uppercase font-bold">{formatSavedAt(entry.updatedAt)}</span>
+                </button>
+              )}
+              {renaming?.id === entry.id ? (
+                <button onMouseDown={(e) => e.preventDefault()} onClick={commitRename} title="Готово" className={iconButtonClass}><Check size={14} /></button>
+              ) : (
+                <>
+                  <button onClick={() => onOpen(entry.id)} title="Открыть" className={iconButtonClass}><FolderOpen size={14} /></button>
+                  <button onClick={() => onDuplicate(entry.id)} title="Дублировать" className={iconButtonClass}><Copy size={14} /></button>
+                  <button onClick={() => setRenaming({ id: entry.id, name: entry.name })} title="Переименовать" className={iconButtonClass}><Pencil size={14} /></button>
+                  <button onClick={() => onDelete(entry.id)} title="Удалить" className="p-2 rounded text-gray-500 hover:text-red-400 hover:bg-white/5"><Trash2 size={14} /></button>
+                </>
+              )}
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
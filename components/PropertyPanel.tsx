@@ -1,16 +1,81 @@
 
 import React from 'react';
-import { TableData, Selection, TableCellStyle } from '../types';
-import { Bold, Plus, Minus, Type, Circle, Palette } from 'lucide-react';
+import { TableData, Selection, TableCellStyle, TableColumn, ColumnType, ColumnAlign, PageBreakMode, GroupingMode, ValidationRules, TypographyRuleId } from '../types';
+import { Bold, Plus, Minus, Type, Circle, Palette, Sigma, Layers, Columns3, AlignLeft, AlignCenter, AlignRight, SeparatorHorizontal, TableCellsMerge, ListTree, ShieldCheck, Pilcrow } from 'lucide-react';
 import { CIRCLE_PALETTE } from '../constants';
+import { canPlaceGroup, getGroupSpan } from '../services/headerService';
+import { getColumnMeta, COLUMN_TYPE_LABELS } from '../services/columnService';
+import { DEFAULT_FONT_FAMILY } from '../services/fontService';
+import { setCellSpan } from '../services/mergeService';
+import { CellIssue, compileRulePattern, normalizeRules } from '../services/validationService';
+import { TYPOGRAPHY_RULES } from '../services/formatService';
+import { getTypographySettings } from '../services/typographyService';
+import { IssuesPanel } from './IssuesPanel';
 
 interface PropertyPanelProps {
   data: TableData;
   selection: Selection;
+  rangeSize: number;   // ячеек в выделенном диапазоне; стиль применяется ко всем
   onUpdateStyle: (style: TableCellStyle) => void;
+  onSetAutoSum: (autoSum: boolean) => void;
+  onSetCellManual: (manual: boolean) => void;
+  onSetCellsPlain: (plain: boolean) => void; // снять или вернуть типографику в диапазоне
+  onUpdateColumn: (colIdx: number, patch: Partial<TableColumn>) => void;
+  onCreateHeaderGroup: (colIdx: number) => void;
+  onSetHeaderGroupSpan: (groupIdx: number, start: number, end: number) => void;
+  onWrapHeaderGroup: (groupIdx: number) => void;
+  onDeleteHeaderGroup: (groupIdx: number) => void;
+  onSetPageBreak: (pageBreak: PageBreakMode | undefined) => void;
+  onSetCellSpan: (rowSpan: number, colSpan: number) => void;
+  onAutoMergeColumn: (colIdx: number) => void;
+  onUnmergeColumn: (colIdx: number) => void;
+  onGroupByColumn: (colIdx: number, mode: GroupingMode) => void;
+  onClearGrouping: () => void;
+  onSetGroupNumbering: (restart: boolean) => void;
+  issues: CellIssue[];
+  onSelectIssue: (issue: CellIssue) => void;
 }
 
-export const PropertyPanel: React.FC<PropertyPanelProps> = ({ data, selection, onUpdateStyle }) => {
+const GROUPING_OPTIONS: { value: GroupingMode; label: string }[] = [
+  { value: 'cluster', label: 'По порядку' },
+  { value: 'sort', label: 'По алфавиту' },
+];
+
+const PAGE_BREAK_OPTIONS: { value: PageBreakMode | undefined; label: string }[] = [
+  { value: undefined, label: 'Авто' },
+  { value: 'before', label: 'Новый лист' },
+  { value: 'avoid', label: 'Запретить' },
+];
+
+const optionButtonClass = (enabled: boolean) => `py-2 rounded border text-[10px] font-bold uppercase transition-all ${
+  enabled
+    ? 'bg-transparent border-white/10 text-gray-400 hover:border-white/20 hover:text-white'
+    : 'bg-transparent border-white/5 text-gray-700 cursor-not-allowed'
+}`;
+
+export const PropertyPanel: React.FC<PropertyPanelProps> = ({ 
+  data, 
+  selection, 
+  rangeSize,
+  onUpdateStyle, 
+  onSetAutoSum, 
+  onSetCellManual,
+  onSetCellsPlain,
+  onUpdateColumn,
+  onCreateHeaderGroup,
+  onSetHeaderGroupSpan,
+  onWrapHeaderGroup,
+  onDeleteHeaderGroup,
+  onSetPageBreak,
+  onSetCellSpan,
+  onAutoMergeColumn,
+  onUnmergeColumn,
+  onGroupByColumn,
+  onClearGrouping,
+  onSetGroupNumbering,
+  issues,
+  onSelectIssue
+}) => {
   const isHeader = selection && selection.rowIdx < 0;
   const selectedRow = selection && !isHeader ? data.rows[selection.rowIdx] : null;
   const selectedCell = selectedRow ? selectedRow.cells[selection!.colIdx] : null;
@@ -24,12 +89,323 @@ export const PropertyPanel: React.FC<PropertyPanelProps> = ({ data, selection, o
     </div>
   );
 
+  const renderGroupSettings = (groupIdx: number) => {
+    const groups = data.headerGroups || [];
+    const group = groups[groupIdx];
+    const span = group && getGroupSpan(data.columns, group);
+    if (!group || !span) return null;
+    const [start, end] = span;
+    const canSpan = (s: number, e: number) => canPlaceGroup(data.columns, groups, s, e, group.id);
+    const spanActions = [
+      { label: '← Шире', start: start - 1, end },
+      { label: 'Шире →', start, end: end + 1 },
+      { label: '→ Уже', start: start + 1, end },
+      { label: 'Уже ←', start, end: end - 1 },
+    ];
+    return (
+      <div className="flex flex-col gap-3">
+        <label className="text-[9px] font-bold uppercase text-gray-400 flex items-center gap-2">
+          <Layers size={12} className="text-gray-600" /> Группа колонок
+        </label>
+        <div className="text-[8px] text-gray-500 uppercase font-bold tracking-tight bg-black/20 p-2 rounded italic">
+          Колонки {start + 1}–{end + 1}
+        </div>
+        <div className="grid grid-cols-2 gap-2">
+          {spanActions.map(action => {
+            const enabled = canSpan(action.start, action.end);
+            return (
+              <button
+                key={action.label}
+                disabled={!enabled}
+                onClick={() => onSetHeaderGroupSpan(groupIdx, action.start, action.end)}
+                className={optionButtonClass(enabled)}
+              >
+                {action.label}
+              </button>
+            );
+          })}
+        </div>
+        <div className="grid grid-cols-2 gap-2">
+          <button onClick={() => onWrapHeaderGroup(groupIdx)} className={optionButtonClass(true)}>Уровень выше</button>
+          <button onClick={() => onDeleteHeaderGroup(groupIdx)} className={optionButtonClass(true)}>Удалить</button>
+        </div>
+      </div>
+    );
+  };
+
+  const renderColumnSettings = (colIdx: number) => {
+    const column = data.columns[colIdx];
+    if (!column) return null;
+    const meta = getColumnMeta(column);
+    const aligns: { value: ColumnAlign; icon: React.ReactNode }[] = [
+      { value: 'left', icon: <AlignLeft size={14} /> },
+      { value: 'center', icon: <AlignCenter size={14} /> },
+      { value: 'right', icon: <AlignRight size={14} /> },
+    ];
+    return (
+      <div className="flex flex-col gap-3">
+        <label className="text-[9px] font-bold uppercase text-gray-400 flex items-center gap-2">
+          <Columns3 size={12} className="text-gray-600" /> Колонка
+        </label>
+        <select
+          value={meta.type}
+          onChange={(e) => onUpdateColumn(colIdx, { type: e.target.value as ColumnType })}
+          className="bg-black/40 border border-white/5 rounded-lg p-2 text-[10px] font-bold uppercase text-white outline-none"
+        >
+          {(Object.keys(COLUMN_TYPE_LABELS) as ColumnType[]).map(type => (
+            <option key={type} value={type}>{COLUMN_TYPE_LABELS[type]}</option>
+          ))}
+        </select>
+        <div className="grid grid-cols-3 gap-2">
+          {aligns.map(a => (
+            <button
+              key={a.value}
+              onClick={() => onUpdateColumn(colIdx, { align: a.value })}
+              className={`py-2 rounded border flex items-center justify-center transition-all ${
+                meta.align === a.value
+                  ? 'bg-blue-600 border-blue-600 text-white'
+                  : 'bg-transparent border-white/10 text-gray-400 hover:border-white/20'
+              }`}
+            >
+              {a.icon}
+            </button>
+          ))}
+        </div>
+        <div className="flex items-center justify-between bg-black/40 rounded-lg p-1 border border-white/5">
+          <button 
+            onClick={() => onUpdateColumn(colIdx, { fontSize: Math.max(0.5, meta.fontSize - 0.1) })}
+            className="p-2 hover:bg-white/5 rounded-md text-gray-400 hover:text-white transition-colors"
+          >
+            <Minus size={14} />
+          </button>
+          <span className="text-[11px] font-bold text-white tabular-nums">{meta.fontSize.toFixed(1)} мм</span>
+          <button 
+            onClick={() => onUpdateColumn(colIdx, { fontSize: Math.min(20, meta.fontSize + 0.1) })}
+            className="p-2 hover:bg-white/5 rounded-md text-gray-400 hover:text-white transition-colors"
+          >
+            <Plus size={14} />
+          </button>
+        </div>
+        <div className="grid grid-cols-2 gap-2">
+          {[400, 700].map(weight => (
+            <button
+              key={weight}
+              onClick={() => onUpdateColumn(colIdx, { fontWeight: weight })}
+              className={`py-2 rounded border text-[10px] font-bold uppercase transition-all ${
+                meta.fontWeight === weight
+                  ? 'bg-blue-600 border-blue-600 text-white'
+                  : 'bg-transparent border-white/10 text-gray-400 hover:border-white/20'
+              }`}
+            >
+              {weight === 700 ? 'Bold' : 'Regular'}
+            </button>
+          ))}
+        </div>
+        <input
+          value={meta.placeholder}
+          onChange={(e) => onUpdateColumn(colIdx, { placeholder: e.target.value })}
+          placeholder="Пустое значение"
+          className="bg-black/40 border border-white/5 rounded-lg p-2 text-[10px] font-bold text-white outline-none placeholder:text-gray-600 placeholder:uppercase"
+        />
+        <label className="flex items-center gap-2 text-[9px] font-bold uppercase text-gray-400 cursor-pointer" title="Длинные слова переносятся по слогам — в редакторе и в PDF">
+          <input
+            type="checkbox"
+            checked={meta.hyphenate}
+            onChange={(e) => onUpdateColumn(colIdx, { hyphenate: e.target.checked })}
+            className="accent-blue-600"
+          />
+          Переносы по слогам
+        </label>
+        <div className="grid grid-cols-2 gap-2">
+          <button
+            disabled={meta.type === 'index'}
+            onClick={() => onAutoMergeColumn(colIdx)}
+            title="Объединить соседние строки с одинаковым значением"
+            className={optionButtonClass(meta.type !== 'index')}
+          >
+            Объединить
+          </button>
+          <button onClick={() => onUnmergeColumn(colIdx)} className={optionButtonClass(true)}>Разъединить</button>
+        </div>
+      </div>
+    );
+  };
+
+  const renderValidationSettings = (colIdx: number) => {
+    const column = data.columns[colIdx];
+    const meta = getColumnMeta(column);
+    if (!column || meta.type === 'index') return null;
+    const rules = column.rules || {};
+    const update = (patch: Partial<ValidationRules>) => onUpdateColumn(colIdx, { rules: normalizeRules({ ...rules, ...patch }) });
+    const bounds: { key: 'min' | 'max' | 'yearMin' | 'yearMax'; label: string }[] =
+      meta.type === 'number' ? [{ key: 'min', label: 'Не меньше' }, { key: 'max', label: 'Не больше' }]
+      : meta.type === 'period' ? [{ key: 'yearMin', label: 'Год от' }, { key: 'yearMax', label: 'Год до' }]
+      : [];
+    const isPatternValid = !rules.pattern || !!compileRulePattern(rules.pattern);
+    const inputClass = "bg-black/40 border rounded-lg p-2 text-[10px] font-bold text-white outline-none placeholder:text-gray-600 placeholder:uppercase";
+    return (
+      <div className="flex flex-col gap-3">
+        <label className="text-[9px] font-bold uppercase text-gray-400 flex items-center gap-2">
+          <ShieldCheck size={12} className="text-gray-600" /> Проверка значений
+        </label>
+        <label className="flex items-center gap-2 text-[9px] font-bold uppercase text-gray-400 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={!!rules.required}
+            onChange={(e) => update({ required: e.target.checked })}
+            className="accent-blue-600"
+          />
+          Обязательное поле
+        </label>
+        {bounds.length > 0 && (
+          <div className="grid grid-cols-2 gap-2">
+            {bounds.map(b => (
+              <input
+                key={b.key}
+                type="number"
+                value={rules[b.key] ?? ''}
+                onChange={(e) => update({ [b.key]: e.target.value === '' ? undefined : Number(e.target.value) })}
+                placeholder={b.label}
+                title={b.label}
+                className={`${inputClass} border-white/5`}
+              />
+            ))}
+          </div>
+        )}
+        {meta.type !== 'boolean' && (
+          <>
+            <textarea
+              value={(rules.allowed || []).join('\n')}
+              onChange={(e) => update({ allowed: e.target.value.split('\n') })}
+              placeholder="Допустимые значения, по одному в строке"
+              rows={3}
+              className={`${inputClass} border-white/5 resize-none`}
+            />
+            <input
+              value={rules.pattern || ''}
+              onChange={(e) => update({ pattern: e.target.value })}
+              placeholder="Шаблон (регулярное выражение)"
+              title={isPatternValid ? 'Значение целиком должно соответствовать шаблону' : 'Ошибка в регулярном выражении, шаблон не проверяется'}
+              className={`${inputClass} font-mono ${isPatternValid ? 'border-white/5' : 'border-red-500'}`}
+            />
+          </>
+        )}
+      </div>
+    );
+  };
+
+  // Колонка может только выключить правила, включённые в проекте
+  const renderTypographySettings = (colIdx: number) => {
+    const column = data.columns[colIdx];
+    if (!column) return null;
+    const projectDisabled = getTypographySettings(data).disabled;
+    const off = column.typographyOff || [];
+    const toggle = (id: TypographyRuleId, enabled: boolean) => {
+      const next = enabled ? off.filter(r => r !== id) : [...off, id];
+      onUpdateColumn(colIdx, { typographyOff: next.length ? next : undefined });
+    };
+    return (
+      <div className="flex flex-col gap-3">
+        <label className="text-[9px] font-bold uppercase text-gray-400 flex items-center gap-2">
+          <Pilcrow size={12} className="text-gray-600" /> Типографика колонки
+        </label>
+        <div className="flex flex-col gap-1">
+          {TYPOGRAPHY_RULES.map(rule => {
+            const inProject = !projectDisabled.includes(rule.id);
+            return (
+              <label
+                key={rule.id}
+                title={inProject ? undefined : 'Правило выключено для всего проекта'}
+                className={`flex items-center gap-2 text-[9px] font-bold ${inProject ? 'text-gray-400 cursor-pointer' : 'text-gray-700'}`}
+              >
+                <input
+                  type="checkbox"
+                  disabled={!inProject}
+                  checked={inProject && !off.includes(rule.id)}
+                  onChange={(e) => toggle(rule.id, e.target.checked)}
+                  className="accent-blue-600"
+                />
+                {rule.label}
+              </label>
+            );
+          })}
+        </div>
+      </div>
+    );
+  };
+
+  const renderGroupingSettings = (colIdx: number) => {
+    const grouping = data.grouping;
+    const isGroupedHere = grouping?.columnId === data.columns[colIdx]?.id;
+    return (
+      <div className="flex flex-col gap-3">
+        <label className="text-[9px] font-bold uppercase text-gray-400 flex items-center gap-2">
+          <ListTree size={12} className="text-gray-600" /> Промежуточные итоги
+        </label>
+        <div className="grid grid-cols-2 gap-2">
+          {GROUPING_OPTIONS.map(option => (
+            <button
+              key={option.value}
+              onClick={() => onGroupByColumn(colIdx, option.value)}
+              className={`py-2 rounded border text-[10px] font-bold uppercase transition-all ${
+                isGroupedHere && grouping?.mode === option.value
+                  ? 'bg-blue-600 border-blue-600 text-white'
+                  : 'bg-transparent border-white/10 text-gray-400 hover:border-white/20'
+              }`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+        {grouping && (
+          <>
+            <label className="flex items-center gap-2 text-[9px] font-bold uppercase text-gray-400 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={grouping.restartNumbering}
+                onChange={(e) => onSetGroupNumbering(e.target.checked)}
+                className="accent-blue-600"
+              />
+              Нумерация в каждой группе
+            </label>
+            <button onClick={onClearGrouping} className={optionButtonClass(true)}>Убрать итоги</button>
+          </>
+        )}
+        <div className="text-[8px] text-gray-500 uppercase font-bold tracking-tight bg-black/20 p-2 rounded italic">
+          {isGroupedHere
+            ? 'Повторное нажатие пересоберёт группы после правок'
+            : 'Строки группируются по значению колонки, над каждой группой — строка итога'}
+        </div>
+      </div>
+    );
+  };
+
   if (isHeader) return (
-    <div className="w-64 bg-[#1a1a1a] border-l border-white/10 p-6 flex flex-col gap-6 shadow-2xl z-50">
+    <div className="w-64 bg-[#1a1a1a] border-l border-white/10 p-6 flex flex-col gap-6 shadow-2xl z-50 overflow-y-auto scrollbar-hide">
       <div className="flex flex-col gap-1">
         <h3 className="text-[10px] font-black uppercase tracking-widest text-blue-500">Заголовок</h3>
-        <span className="text-[8px] text-gray-500 uppercase font-bold">Ячейка шапки</span>
+        <span className="text-[8px] text-gray-500 uppercase font-bold">
+          {selection.rowIdx === -2 ? 'Группа шапки' : `Колонка ${selection.colIdx + 1}`}
+        </span>
       </div>
+      {selection.rowIdx === -1 && renderColumnSettings(selection.colIdx)}
+      {selection.rowIdx === -1 && renderValidationSettings(selection.colIdx)}
+      {selection.rowIdx === -1 && renderTypographySettings(selection.colIdx)}
+      {selection.rowIdx === -1 && renderGroupingSettings(selection.colIdx)}
+      {selection.rowIdx === -2 ? renderGroupSettings(selection.colIdx) : (
+        <div className="flex flex-col gap-3">
+          <label className="text-[9px] font-bold uppercase text-gray-400 flex items-center gap-2">
+            <Layers size={12} className="text-gray-600" /> Группа колонок
+          </label>
+          <button
+            disabled={!canPlaceGroup(data.columns, data.headerGroups || [], selection.colIdx, selection.colIdx)}
+            onClick={() => onCreateHeaderGroup(selection.colIdx)}
+            className={optionButtonClass(canPlaceGroup(data.columns, data.headerGroups || [], selection.colIdx, selection.colIdx))}
+          >
+            Создать группу над колонкой
+          </button>
+        </div>
+      )}
       <div className="flex-1 flex items-center justify-center text-gray-600 text-[10px] uppercase font-bold text-center italic">
         Редактирование стиля шапки ограничено стандартами
       </div>
@@ -38,19 +414,67 @@ export const PropertyPanel: React.FC<PropertyPanelProps> = ({ data, selection, o
 
   if (!selectedCell) return null;
 
-  const isFirstCol = selection.colIdx === 0;
-  const currentFontSize = selectedCell?.style?.fontSize || (selection.colIdx >= 7 ? 3.8 : 3.1);
+  const columnMeta = getColumnMeta(data.columns[selection.colIdx]);
+  const isFirstCol = columnMeta.type === 'index';
+  const currentFontSize = selectedCell?.style?.fontSize || columnMeta.fontSize;
   const currentCircleSize = selectedCell?.style?.circleSize || (currentFontSize * 1.6);
-  const isLinkedCol = !isFirstCol && selection.colIdx >= 1 && selection.colIdx <= 7;
+  const isLinkedCol = !isFirstCol;
+  const isComputedCol = columnMeta.type === 'number';
+  const rowSpan = selectedCell.rowSpan || 1;
+  const colSpan = selectedCell.colSpan || 1;
+  const spanActions = [
+    { label: 'Ниже ↓', rowSpan: rowSpan + 1, colSpan },
+    { label: 'Шире →', rowSpan, colSpan: colSpan + 1 },
+    { label: 'Выше ↑', rowSpan: rowSpan - 1, colSpan },
+    { label: 'Уже ←', rowSpan, colSpan: colSpan - 1 },
+  ];
 
   return (
     <div className="w-64 bg-[#1a1a1a] border-l border-white/10 p-6 flex flex-col gap-6 shadow-2xl z-50 overflow-y-auto scrollbar-hide">
       <div className="flex flex-col gap-1">
         <h3 className="text-[10px] font-black uppercase tracking-widest text-blue-500">Типографика</h3>
-        <span className="text-[8px] text-gray-500 uppercase font-bold">Ячейка R{selection.rowIdx + 1}:C{selection.colIdx + 1}</span>
+        <span className="text-[8px] text-gray-500 uppercase font-bold">
+          {rangeSize > 1 ? `Диапазон: ${rangeSize} яч., активная R${selection.rowIdx + 1}:C${selection.colIdx + 1}` : `Ячейка R${selection.rowIdx + 1}:C${selection.colIdx + 1}`}
+        </span>
       </div>
 
       <div className="space-y-6">
+        {selectedRow?.isTotal && (
+          <div className="flex flex-col gap-3">
+            <label className="text-[9px] font-bold uppercase text-gray-400 flex items-center gap-2">
+              <Sigma size={12} className="text-gray-600" /> Итоговая строка
+            </label>
+            <div className="grid grid-cols-2 gap-2">
+              {[true, false].map(auto => (
+                <button
+                  key={String(auto)}
+                  onClick={() => onSetAutoSum(auto)}
+                  className={`py-2 rounded border text-[10px] font-bold uppercase transition-all ${
+                    !!selectedRow.autoSum === auto
+                      ? 'bg-blue-600 border-blue-600 text-white'
+                      : 'bg-transparent border-white/10 text-gray-400 hover:border-white/20'
+                  }`}
+                >
+                  {auto ? 'Автосумма' : 'Вручную'}
+                </button>
+              ))}
+            </div>
+            {selectedRow.autoSum && isComputedCol && (
+              <div className="flex items-center justify-between gap-2 bg-black/20 p-2 rounded">
+                <span className="text-[8px] text-gray-500 uppercase font-bold tracking-tight italic">
+                  {selectedCell.manual ? 'Значение введено вручную' : 'Сумма по строкам таблицы'}
+                </span>
+                <button
+                  onClick={() => onSetCellManual(!selectedCell.manual)}
+                  className="text-[8px] font-bold uppercase text-blue-400 hover:text-blue-300 whitespace-nowrap"
+                >
+                  {selectedCell.manual ? 'Вернуть сумму' : 'Закрепить'}
+                </button>
+              </div>
+            )}
+          </div>
+        )}
+
         {isFirstCol && (
           <>
             <div className="flex flex-col gap-3">
@@ -125,12 +549,12 @@ export const PropertyPanel: React.FC<PropertyPanelProps> = ({ data, selection, o
           </div>
           {isLinkedCol && (
             <p className="text-[8px] text-blue-500/60 font-bold uppercase tracking-wider">
-              * Связанный размер для колонок 2–8
+              * Связанный размер для всех колонок, кроме №
             </p>
           )}
           {isFirstCol && (
             <p className="text-[8px] text-emerald-500/60 font-bold uppercase tracking-wider">
-              * Независимый размер (Колонка 1)
+              * Независимый размер (колонка №)
             </p>
           )}
         </div>
@@ -145,7 +569,7 @@ export const PropertyPanel: React.FC<PropertyPanelProps> = ({ data, selection, o
                 key={weight}
                 onClick={() => onUpdateStyle({ fontWeight: weight })}
                 className={`py-2 rounded border text-[10px] font-bold uppercase transition-all ${
-                  (selectedCell?.style?.fontWeight || (isFirstCol || selection.colIdx >= 7 || data.rows[selection.rowIdx]?.isTotal ? 700 : 400)) == weight
+                  (selectedCell?.style?.fontWeight || (selectedRow?.isTotal ? 700 : columnMeta.fontWeight)) == weight
                     ? 'bg-blue-600 border-blue-600 text-white'
                     : 'bg-transparent border-white/10 text-gray-400 hover:border-white/20'
                 }`}
@@ -154,12 +578,93 @@ export const PropertyPanel: React.FC<PropertyPanelProps> = ({ data, selection, o
               </button>
             ))}
           </div>
+          {!isFirstCol && (
+            <button
+              onClick={() => onUpdateStyle({ fontStyle: selectedCell.style?.fontStyle === 'italic' ? 'normal' : 'italic' })}
+              className={`py-2 rounded border text-[10px] font-bold uppercase italic transition-all ${
+                selectedCell.style?.fontStyle === 'italic'
+                  ? 'bg-blue-600 border-blue-600 text-white'
+                  : 'bg-transparent border-white/10 text-gray-400 hover:border-white/20'
+              }`}
+            >
+              Italic
+            </button>
+          )}
         </div>
+
+        {!isFirstCol && (
+          <div className="flex flex-col gap-3">
+            <label className="text-[9px] font-bold uppercase text-gray-400 flex items-center gap-2">
+              <Pilcrow size={12} className="text-gray-600" /> Форматирование текста
+            </label>
+            <div className="text-[8px] text-gray-500 uppercase font-bold tracking-tight bg-black/20 p-2 rounded italic">
+              {selectedCell.plain ? 'Типографика снята, текст выводится как введён' : 'Правила типографики проекта и колонки'}
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              <button onClick={() => onSetCellsPlain(true)} className={optionButtonClass(true)}>Снять</button>
+              <button onClick={() => onSetCellsPlain(false)} className={optionButtonClass(true)}>Применить</button>
+            </div>
+          </div>
+        )}
+
+        <div className="flex flex-col gap-3">
+          <label className="text-[9px] font-bold uppercase text-gray-400 flex items-center gap-2">
+            <SeparatorHorizontal size={12} className="text-gray-600" /> Разрыв листа перед строкой
+          </label>
+          <div className="grid grid-cols-3 gap-2">
+            {PAGE_BREAK_OPTIONS.map(option => (
+              <button
+                key={option.label}
+                onClick={() => onSetPageBreak(option.value)}
+                className={`py-2 rounded border text-[9px] font-bold uppercase transition-all ${
+                  selectedRow?.pageBreak === option.value
+                    ? 'bg-blue-600 border-blue-600 text-white'
+                    : 'bg-transparent border-white/10 text-gray-400 hover:border-white/20'
+                }`}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      <div className="flex flex-col gap-3">
+        <label className="text-[9px] font-bold uppercase text-gray-400 flex items-center gap-2">
+          <TableCellsMerge size={12} className="text-gray-600" /> Объединение ячеек
+        </label>
+        <div className="text-[8px] text-gray-500 uppercase font-bold tracking-tight bg-black/20 p-2 rounded italic">
+          {rowSpan > 1 || colSpan > 1 ? `Строк: ${rowSpan}, колонок: ${colSpan}` : 'Ячейка не объединена'}
+        </div>
+        <div className="grid grid-cols-2 gap-2">
+          {spanActions.map(action => {
+            const enabled = !!setCellSpan(data.rows, selection.rowIdx, selection.colIdx, action.rowSpan, action.colSpan);
+            return (
+              <button
+                key={action.label}
+                disabled={!enabled}
+                onClick={() => onSetCellSpan(action.rowSpan, action.colSpan)}
+                className={optionButtonClass(enabled)}
+              >
+                {action.label}
+              </button>
+            );
+          })}
+        </div>
+        <button
+          disabled={rowSpan === 1 && colSpan === 1}
+          onClick={() => onSetCellSpan(1, 1)}
+          className={optionButtonClass(rowSpan > 1 || colSpan > 1)}
+        >
+          Разъединить
+        </button>
       </div>
 
+      <IssuesPanel data={data} issues={issues} selection={selection} onSelectIssue={onSelectIssue} />
+
       <div className="mt-auto pt-6 border-t border-white/5 flex flex-col gap-2">
          <div className="text-[8px] text-gray-600 uppercase font-black tracking-widest">Информация</div>
-         <div className="text-[10px] text-gray-400 font-bold">Roboto Condensed</div>
+         <div className="text-[10px] text-gray-400 font-bold">{data.fontFamily || DEFAULT_FONT_FAMILY}</div>
          <div className="text-[10px] text-gray-400 font-bold">Vector Rendering Engine</div>
       </div>
     </div>
@@ -0,0 +1,37 @@
+import React from 'react';
+import { SessionSnapshot } from '../services/storageService';
+import { formatSavedAt } from './LibraryDialog';
+import { History } from 'lucide-react';
+
+interface RecoveryDialogProps {
+  session: SessionSnapshot;
+  onRestore: () => void;
+  onDiscard: () => void;
+}
+
+export const RecoveryDialog: React.FC<RecoveryDialogProps> = ({ session, onRestore, onDiscard }) => (
+  <div className="fixed inset-0 bg-black/70 z-[200] flex items-center justify-center" onMouseDown={(e) => e.stopPropagation()}>
+    <div className="bg-[#1a1a1a] border border-white/10 rounded-2xl shadow-2xl w-[420px] max-w-[95vw] flex flex-col text-slate-100">
+      <div className="flex items-center gap-3 px-6 py-4 border-b border-white/5">
+        <History size={18} className="text-amber-500" />
+        <h3 className="text-[10px] font-black uppercase tracking-widest text-amber-500">Восстановление работы</h3>
+      </div>
+      <div className="flex flex-col gap-2 px-6 py-4">
+        <span className="text-[11px] text-gray-300 font-bold">
+          Найдена несохранённая работа с прошлого сеанса. Восстановить её?
+        </span>
+        <span className="text-[10px] text-gray-500 font-bold">
+          «{session.project.name}», {formatSavedAt(session.updatedAt)}, строк: {session.data.rows.length}
+        </span>
+      </div>
+      <div className="flex justify-end gap-3 px-6 py-4 border-t border-white/5">
+        <button onClick={onDiscard} className="px-4 py-2 rounded border border-white/10 text-[10px] font-bold uppercase text-gray-400 hover:border-white/20">
+          Начать заново
+        </button>
+        <button onClick={onRestore} className="px-4 py-2 rounded bg-amber-600 hover:bg-amber-700 text-[10px] font-bold uppercase text-white">
+          Восстановить
+        </button>
+      </div>
+    </div>
+  </div>
+);
@@ -0,0 +1,105 @@
+import React from 'react';
+import { TableData, RowView, ProblemFilter } from '../types';
+import { getUsedCategories } from '../services/legendService';
+import { isRowViewActive } from '../services/viewService';
+import { Search, ArrowUpNarrowWide, ArrowDownWideNarrow, FilterX } from 'lucide-react';
+
+interface RowViewBarProps {
+  data: TableData;
+  view: RowView;
+  visibleRows: number;
+  totalRows: number;
+  onChange: (patch: Partial<RowView>) => void;
+  onApplySort: () => void;
+  onReset: () => void;
+}
+
+const PROBLEM_OPTIONS: { value: ProblemFilter; label: string }[] = [
+  { value: 'all', label: 'Все строки' },
+  { value: 'empty', label: 'С пустыми' },
+  { value: 'invalid', label: 'С ошибками' },
+];
+
+const controlClass = 'bg-black/40 border border-white/5 rounded-lg px-2 py-1.5 text-[10px] font-bold text-white outline-none';
+
+/** Sorting and filtering of the editor view, floating above the canvas. */
+export const RowViewBar: React.FC<RowViewBarProps> = ({ data, view, visibleRows, totalRows, onChange, onApplySort, onReset }) => {
+  const categories = getUsedCategories(data);
+  const isActive = isRowViewActive(view);
+
+  return (
+    <div
+      className="absolute top-8 left-1/2 -translate-x-1/2 z-[200] bg-black/95 backdrop-blur-3xl px-4 py-3 rounded-2xl border border-white/10 shadow-2xl flex items-center gap-3"
+      onMouseDown={(e) => e.stopPropagation()}
+    >
+      <div className="flex items-center gap-2 bg-black/40 border border-white/5 rounded-lg px-2">
+        <Search size={12} className="text-gray-500" />
+        <input
+          value={view.query}
+          onChange={(e) => onChange({ query: e.target.value })}
+          placeholder="Поиск по строкам"
+          className="bg-transparent py-1.5 w-40 text-[10px] font-bold text-white outline-none placeholder:text-gray-600"
+        />
+      </div>
+      <select
+        value={view.category || ''}
+        onChange={(e) => onChange({ category: e.target.value || null })}
+        className={controlClass}
+      >
+        <option value="">Все категории</option>
+        {categories.map(c => <option key={c.color} value={c.color}>{c.label}</option>)}
+      </select>
+      <select
+        value={view.problems}
+        onChange={(e) => onChange({ problems: e.target.value as ProblemFilter })}
+        className={controlClass}
+      >
+        {PROBLEM_OPTIONS.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+      </select>
+      <div className="w-px h-6 bg-white/10" />
+      <select
+        value={view.sortColumnId || ''}
+        onChange={(e) => onChange({ sortColumnId: e.target.value || null })}
+        className={`${controlClass} max-w-[160px]`}
+      >
+        <option value="">Без сортировки</option>
+        {data.columns.map((c, i) => <option key={c.id} value={c.id}>{i + 1}. {c.title.replace(/\n/g, ' ')}</option>)}
+      </select>
+      <button
+        onClick={() => onChange({ sortDirection: view.sortDirection === 'asc' ? 'desc' : 'asc' })}
+        title={view.sortDirection === 'asc' ? 'По возрастанию' : 'По убыванию'}
+        className="p-1.5 rounded-lg border border-white/10 text-gray-400 hover:text-white hover:border-white/20 transition-colors"
+      >
+        {view.sortDirection === 'asc' ? <ArrowUpNarrowWide size={14} /> : <ArrowDownWideNarrow size={14} />}
+      </button>
+      <button
+        disabled={!view.sortColumnId}
+        onClick={onApplySort}
+        title="Переставить строки в проекте, а не только на экране"
+        className="px-2 py-1.5 rounded-lg border border-white/10 text-[9px] font-bold uppercase text-gray-400 hover:text-white hover:border-white/20 disabled:opacity-30 disabled:hover:text-gray-400 transition-colors"
+      >
+        Закрепить порядок
+      </button>
+      <div className="w-px h-6 bg-white/10" />
+      <label className="flex items-center gap-2 text-[9px] font-bold uppercase text-gray-400 cursor-pointer whitespace-nowrap">
+        <input
+          type="checkbox"
+          checked={view.applyToPdf}
+          onChange={(e) => onChange({ applyToPdf: e.target.checked })}
+          className="accent-blue-600"
+        />
+        PDF по фильтру
+      </label>
+      {isActive && (
+        <>
+          <span className="text-[9px] font-bold uppercase text-blue-400 whitespace-nowrap tabular-nums">
+            {visibleRows} из {totalRows}
+          </span>
+          <button onClick={onReset} title="Сбросить сортировку и фильтры" className="text-gray-500 hover:text-white transition-colors">
+            <FilterX size={14} />
+          </button>
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,141 @@
+import React, { useEffect, useRef } from 'react';
+import { TableData } from '../types';
+import { SearchOptions, SearchScope } from '../services/searchService';
+import { CaseSensitive, WholeWord, Regex, ChevronUp, ChevronDown, Replace, ReplaceAll, X } from 'lucide-react';
+
+interface SearchPanelProps {
+  data: TableData;
+  options: SearchOptions;
+  matchCount: number;
+  currentIndex: number;
+  isPatternValid: boolean;
+  hasSelection: boolean;
+  focusRequest: number; // увеличивается на каждое Ctrl+F
+  onChange: (patch: Partial<SearchOptions>) => void;
+  onNext: () => void;
+  onPrev: () => void;
+  onReplace: () => void;
+  onReplaceAll: () => void;
+  onClose: () => void;
+}
+
+const SCOPE_OPTIONS: { value: SearchScope; label: string }[] = [
+  { value: 'all', label: 'Вся таблица' },
+  { value: 'column', label: 'Колонка' },
+  { value: 'selection', label: 'Выделение' },
+];
+
+const inputClass = 'flex-1 min-w-0 bg-black/40 border border-white/5 rounded-lg px-2 py-1.5 text-[10px] font-bold text-white outline-none placeholder:text-gray-600';
+
+const toggleClass = (enabled: boolean) => `p-1.5 rounded-lg border transition-colors ${
+  enabled ? 'bg-blue-600 border-blue-600 text-white' : 'border-white/10 text-gray-400 hover:text-white hover:border-white/20'
+}`;
+
+const actionClass = 'p-1.5 rounded-lg border border-white/10 text-gray-400 hover:text-white hover:border-white/20 disabled:opacity-30 disabled:hover:text-gray-400 transition-colors';
+
+/** Find and replace over cell values and column titles (Ctrl+F). */
+export const SearchPanel: React.FC<SearchPanelProps> = ({
+  data,
+  options,
+  matchCount,
+  currentIndex,
+  isPatternValid,
+  hasSelection,
+  focusRequest,
+  onChange,
+  onNext,
+  onPrev,
+  onReplace,
+  onReplaceAll,
+  onClose
+}) => {
+  const queryRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    queryRef.current?.focus();
+    queryRef.current?.select();
+  }, [focusRequest]);
+
+  const status = !options.query
+    ? ''
+    : !isPatternValid
+      ? 'Ошибка в выражении'
+      : matchCount === 0 ? 'Нет совпадений' : `${currentIndex + 1} из ${matchCount}`;
+
+  return (
+    <div
+      className="absolute top-28 right-8 z-[200] w-80 bg-black/95 backdrop-blur-3xl p-4 rounded-2xl border border-white/10 shadow-2xl flex flex-col gap-3"
+      onMouseDown={(e) => e.stopPropagation()}
+    >
+      <div className="flex items-center justify-between">
+        <h3 className="text-[10px] font-black uppercase tracking-widest text-blue-500">Найти и заменить</h3>
+        <button onClick={onClose} className="text-gray-500 hover:text-white transition-colors"><X size={14} /></button>
+      </div>
+      <div className="flex items-center gap-2">
+        <input
+          ref={queryRef}
+          value={options.query}
+          onChange={(e) => onChange({ query: e.target.value })}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') { e.preventDefault(); if (e.shiftKey) onPrev(); else onNext(); }
+            if (e.key === 'Escape') onClose();
+          }}
+          placeholder="Найти"
+          className={`${inputClass} ${options.query && !isPatternValid ? 'border-red-500/60' : ''}`}
+        />
+        <button onClick={onPrev} disabled={matchCount === 0} title="Предыдущее (Shift+Enter)" className={actionClass}><ChevronUp size={14} /></button>
+        <button onClick={onNext} disabled={matchCount === 0} title="Следующее (Enter)" className={actionClass}><ChevronDown size={14} /></button>
+      </div>
+      <div className="flex items-center gap-2">
+        <input
+          value={options.replacement}
+          onChange={(e) => onChange({ replacement: e.target.value })}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') { e.preventDefault(); onReplace(); }
+            if (e.key === 'Escape') onClose();
+          }}
+          placeholder="Заменить на"
+          className={inputClass}
+        />
+        <button onClick={onReplace} disabled={matchCount === 0} title="Заменить текущее" className={actionClass}><Replace size={14} /></button>
+        <button onClick={onReplaceAll} disabled={matchCount === 0} title="Заменить все" className={actionClass}><ReplaceAll size={14} /></button>
+      </div>
+      <div className="flex items-center gap-2">
+        <button onClick={() => onChange({ matchCase: !options.matchCase })} title="Учитывать регистр" className={toggleClass(options.matchCase)}><CaseSensitive size={14} /></button>
+        <button onClick={() => onChange({ wholeWord: !options.wholeWord })} title="Слово целиком" className={toggleClass(options.wholeWord)}><WholeWord size={14} /></button>
+        <button onClick={() => onChange({ regex: !options.regex })} title="Регулярное выражение" className={toggleClass(options.regex)}><Regex size={14} /></button>
+        <span className={`ml-auto text-[9px] font-bold uppercase tabular-nums ${isPatternValid ? 'text-gray-400' : 'text-red-400'}`}>{status}</span>
+      </div>
+      <div className="grid grid-cols-3 gap-2">
+        {SCOPE_OPTIONS.map(option => {
+          const enabled = option.value !== 'selection' || hasSelection;
+          return (
+            <button
+              key={option.value}
+              disabled={!enabled}
+              onClick={() => onChange({ scope: option.value, columnId: options.columnId || data.columns[0]?.id || null })}
+              className={`py-1.5 rounded border text-[9px] font-bold uppercase transition-all ${
+                options.scope === option.value
+                  ? 'bg-blue-600 border-blue-600 text-white'
+                  : enabled
+                    ? 'bg-transparent border-white/10 text-gray-400 hover:border-white/20'
+                    : 'bg-transparent border-white/5 text-gray-700 cursor-not-allowed'
+              }`}
+            >
+              {option.label}
+            </button>
+          );
+        })}
+      </div>
+      {options.scope === 'column' && (
+        <select
+          value={options.columnId || ''}
+          onChange={(e) => onChange({ columnId: e.target.value })}
+          className="bg-black/40 border border-white/5 rounded-lg p-2 text-[10px] font-bold text-white outline-none"
+        >
+          {data.columns.map((c, i) => <option key={c.id} value={c.id}>{i + 1}. {c.title.replace(/\n/g, ' ')}</option>)}
+        </select>
+      )}
+    </div>
+  );
+};
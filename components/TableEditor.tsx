@@ -1,52 +1,105 @@
 
 import React, { useRef, useEffect, useState } from 'react';
-import { TableData, Selection, TableCellStyle } from '../types';
-import { COLORS, A3_WIDTH_MM, MARGIN_MM } from '../constants';
-import { formatRussianText } from '../services/formatService';
-import { Plus, Trash2, X } from 'lucide-react';
+import { TableData, Selection, TableCellStyle, ColumnAlign } from '../types';
+import { COLORS } from '../constants';
+import { TableLayout, TextLayout, TracedChar, LAYOUT_UNITS, textBlockHeight, getFragmentSize } from '../services/layoutService';
+import { TYPOGRAPHY_RULE_COLORS, SOURCE_CHAR_COLOR, INVISIBLE_GLYPHS, describeTypographyChar } from '../services/typographyService';
+import { getPageFragments } from '../services/mergeService';
+import { CellRange, isInRange } from '../services/selectionService';
+import { getUsedCategories, LEGEND_UNITS } from '../services/legendService';
+import { LegendBlock } from './LegendBlock';
+import { Plus, Trash2, X, SeparatorHorizontal, Link2, GripVertical, GripHorizontal } from 'lucide-react';
 
 interface TableEditorProps {
   data: TableData;
+  layout: TableLayout;
+  rowIndices: number[]; // строки этого листа
+  isFirstPage: boolean;
+  isLastPage: boolean;
   selection: Selection;
-  onSelect: (rowIdx: number, colIdx: number) => void;
+  selectionRange: CellRange | null;
+  isEditing: boolean;   // ячейка открыта для ввода (F2, набор текста, повторный клик)
+  onSelect: (rowIdx: number, colIdx: number, extend?: boolean) => void;
+  onCommitEdit: (dRow: number, dCol: number) => void;
+  onCancelEdit: () => void;
   onUpdateCell: (rowIdx: number, colIdx: number, value: string) => void;
   onUpdateCellStyle: (rowIdx: number, colIdx: number, style: TableCellStyle) => void;
   onResizeColumn: (colIdx: number, deltaPercent: number) => void;
+  onResizeEnd: () => void;
   onAddRow: () => void;
   onDeleteRow: (idx: number) => void;
   onAddColumn: (atIdx?: number) => void;
   onDeleteColumn: (idx: number) => void;
+  onMoveRow?: (from: number, before: number) => void;   // нет при сортировке и фильтрах
+  onMoveColumn: (from: number, before: number) => void;
   onUpdateColumnTitle: (colIdx: number, title: string) => void;
-  onUpdateGroupTitle: (title: string) => void;
+  onUpdateGroupTitle: (groupIdx: number, title: string) => void;
+  onAddColumnToGroup: (groupIdx: number) => void;
+  searchHighlight?: SearchHighlight | null;
+  issueCells?: Map<string, string>; // ошибки проверки по ключу "строка:колонка"
   pxPerMm: number;
 }
 
+/** Cells with search matches keyed "row:col" (row -1 for column titles); true marks the current match. */
+export interface SearchHighlight {
+  pattern: RegExp;
+  cells: Map<string, boolean>;
+}
+
+// Типы данных перетаскивания: при dragover доступны только типы, не значения
+const ROW_DRAG = 'application/x-tablitsa-row';
+const COLUMN_DRAG = 'application/x-tablitsa-column';
+
+// Служебные знаки, которые подсвечиваются и тогда, когда их ввели вручную
+const SERVICE_CHARS = /[\u00A0\u2060\u2011–—]/;
+
+interface DropTarget {
+  kind: 'row' | 'column';
+  idx: number;
+  after: boolean;
+}
+
 export const TableEditor: React.FC<TableEditorProps> = ({ 
   data, 
+  layout,
+  rowIndices,
+  isFirstPage,
+  isLastPage,
   selection, 
+  selectionRange,
+  isEditing,
   onSelect, 
+  onCommitEdit,
+  onCancelEdit,
   onUpdateCell, 
   onUpdateCellStyle,
   onResizeColumn,
+  onResizeEnd,
   onAddRow,
   onDeleteRow,
   onAddColumn,
   onDeleteColumn,
+  onMoveRow,
+  onMoveColumn,
   onUpdateColumnTitle,
   onUpdateGroupTitle,
+  onAddColumnToGroup,
+  searchHighlight,
+  issueCells,
   pxPerMm 
 }) => {
   const activeInputRef = useRef<HTMLTextAreaElement>(null);
   const tableRef = useRef<HTMLTableElement>(null);
   const [resizingColIdx, setResizingColIdx] = useState<number | null>(null);
+  const [dropTarget, setDropTarget] = useState<DropTarget | null>(null);
   const startXRef = useRef(0);
 
-  const baseHeaderFontSize = 2.6 * pxPerMm; 
-  const standardFontSize = 3.1 * pxPerMm;
-  const largerFontSize = 3.8 * pxPerMm; 
-  const cellPadding = 0.7 * pxPerMm;
-  const headerPadding = 0.6 * pxPerMm; 
-  const borderWidth = 0.1 * pxPerMm; 
+  const mm = (v: number) => `${v * pxPerMm}px`;
+  const fragmentRows = getPageFragments(layout.merges, rowIndices);
+  const rowBgOf = (rIdx: number) => data.rows[rIdx].isTotal
+    ? COLORS.totalBg
+    : (layout.rows[rIdx].bodyIdx % 2 === 0 ? COLORS.rowEven : COLORS.rowOdd);
+  const borderWidth = LAYOUT_UNITS.borderWidth * pxPerMm; 
   const controlSize = 5.0 * pxPerMm;
 
   useEffect(() => {
@@ -55,7 +108,7 @@ export const TableEditor: React.FC<TableEditorProps> = ({
       textarea.focus();
       textarea.setSelectionRange(textarea.value.length, textarea.value.length);
     }
-  }, [selection?.rowIdx, selection?.colIdx]);
+  }, [selection?.rowIdx, selection?.colIdx, isEditing]);
 
   const handleMouseDownResizer = (e: React.MouseEvent, colIdx: number) => {
     e.stopPropagation();
@@ -68,86 +121,186 @@ export const TableEditor: React.FC<TableEditorProps> = ({
     if (resizingColIdx === null) return;
     const handleMouseMove = (e: MouseEvent) => {
       const dx = e.clientX - startXRef.current;
-      const tableWidthPx = (A3_WIDTH_MM - (MARGIN_MM * 2)) * pxPerMm;
+      const tableWidthPx = layout.contentWidth * pxPerMm;
       const deltaPercent = (dx / tableWidthPx) * 100;
       onResizeColumn(resizingColIdx, deltaPercent);
       startXRef.current = e.clientX;
     };
-    const handleMouseUp = () => setResizingColIdx(null);
+    const handleMouseUp = () => {
+      setResizingColIdx(null);
+      onResizeEnd();
+    };
     window.addEventListener('mousemove', handleMouseMove);
     window.addEventListener('mouseup', handleMouseUp);
     return () => {
       window.removeEventListener('mousemove', handleMouseMove);
       window.removeEventListener('mouseup', handleMouseUp);
     };
-  }, [resizingColIdx, onResizeColumn, pxPerMm]);
+  }, [resizingColIdx, onResizeColumn, onResizeEnd, pxPerMm, layout.contentWidth]);
 
-  const renderEditableHeaderCell = (idx: number, isGroup?: boolean) => {
-    const rowIdx = isGroup ? -2 : -1;
-    const isSelected = selection?.rowIdx === rowIdx && selection?.colIdx === idx;
-    const value = isGroup ? (data.groupTitle || '') : data.columns[idx].title;
+  // Каждый лист держит свою отметку места вставки; любое завершение перетаскивания её снимает
+  useEffect(() => {
+    const clear = () => setDropTarget(null);
+    window.addEventListener('dragend', clear);
+    window.addEventListener('drop', clear);
+    return () => {
+      window.removeEventListener('dragend', clear);
+      window.removeEventListener('drop', clear);
+    };
+  }, []);
 
+  const startDrag = (e: React.DragEvent, type: string, idx: number) => {
+    e.stopPropagation();
+    e.dataTransfer.setData(type, String(idx));
+    e.dataTransfer.effectAllowed = 'move';
+  };
+
+  // Вставка до или после элемента по половине, над которой находится курсор
+  const dropHandlers = (kind: DropTarget['kind'], idx: number, onMove: ((from: number, before: number) => void) | undefined) => {
+    const type = kind === 'row' ? ROW_DRAG : COLUMN_DRAG;
+    const isAfter = (e: React.DragEvent) => {
+      const box = e.currentTarget.getBoundingClientRect();
+      return kind === 'row' ? e.clientY > box.top + box.height / 2 : e.clientX > box.left + box.width / 2;
+    };
+    return {
+      onDragOver: (e: React.DragEvent) => {
+        if (!onMove || !e.dataTransfer.types.includes(type)) return;
+        e.preventDefault();
+        const after = isAfter(e);
+        if (dropTarget?.kind !== kind || dropTarget.idx !== idx || dropTarget.after !== after) setDropTarget({ kind, idx, after });
+      },
+      onDrop: (e: React.DragEvent) => {
+        if (!onMove || !e.dataTransfer.types.includes(type)) return;
+        e.preventDefault();
+        setDropTarget(null);
+        onMove(Number(e.dataTransfer.getData(type)), isAfter(e) ? idx + 1 : idx);
+      }
+    };
+  };
+
+  const renderDropMark = (kind: DropTarget['kind'], idx: number) => {
+    if (dropTarget?.kind !== kind || dropTarget.idx !== idx) return null;
+    const side = kind === 'row' ? (dropTarget.after ? 'bottom' : 'top') : (dropTarget.after ? 'right' : 'left');
+    const size = `${borderWidth * 3}px`;
     return (
-      <div className="relative w-full h-full flex items-center justify-center overflow-hidden">
-        <span 
-          className="whitespace-pre-wrap invisible pointer-events-none select-none"
-          style={{ 
-            fontSize: `${baseHeaderFontSize}px`,
-            lineHeight: '1.05',
-            padding: '0px',
-            display: 'block',
-            width: '100%'
-          }}
-        >
-          {formatRussianText(value) || ' '}
-        </span>
-        
-        {isSelected ? (
-          <textarea
-            ref={activeInputRef}
-            value={value}
-            onKeyDown={(e) => {
-              if (e.key === ' ' || e.key === 'Enter') e.stopPropagation();
-            }}
-            onChange={(e) => {
-              if (isGroup) onUpdateGroupTitle(e.target.value);
-              else onUpdateColumnTitle(idx, e.target.value);
-            }}
-            className="absolute inset-0 w-full h-full bg-transparent outline-none resize-none overflow-hidden font-inherit border-none caret-white block"
-            style={{
-              padding: '0px',
-              fontSize: `${baseHeaderFontSize}px`,
-              fontWeight: 'bold',
-              textAlign: 'center',
-              lineHeight: '1.05',
-              color: '#FFFFFF',
-              margin: '0'
-            }}
-          />
-        ) : (
-          <span className="absolute inset-0 flex items-center justify-center text-center leading-[1.05] whitespace-pre-wrap px-0">
-             {formatRussianText(value)}
-          </span>
-        )}
-      </div>
+      <div
+        className="absolute pointer-events-none z-[130] bg-blue-500"
+        style={kind === 'row'
+          ? { left: 0, right: 0, height: size, [side]: `-${borderWidth * 1.5}px` }
+          : { top: 0, bottom: 0, width: size, [side]: `-${borderWidth * 1.5}px` }}
+      />
     );
   };
 
+  const highlightOf = (rowIdx: number, colIdx: number) => searchHighlight?.cells.get(`${rowIdx}:${colIdx}`);
+
+  // Совпадения ищутся в разложенных строках; неразрывные пробелы читаются как обычные
+  const renderMarkedLine = (line: string, isCurrent: boolean) => {
+    const parts: React.ReactNode[] = [];
+    let last = 0;
+    for (const m of line.replace(/[\u00A0\u202F]/g, ' ').matchAll(searchHighlight!.pattern)) {
+      if (!m[0].length) continue;
+      parts.push(line.slice(last, m.index), (
+        <mark key={m.index} style={{ backgroundColor: isCurrent ? '#fb923c' : '#fde047', color: '#000000' }}>
+          {line.slice(m.index!, m.index! + m[0].length)}
+        </mark>
+      ));
+      last = m.index! + m[0].length;
+    }
+    parts.push(line.slice(last));
+    return parts;
+  };
+
+  // Невидимые символы: знаки типографики окрашены по правилу, которое их поставило, пробелы и склейки подписаны глифами
+  const renderTracedLine = (line: TracedChar[]) => {
+    const parts: React.ReactNode[] = [];
+    let plain = '';
+    line.forEach(({ char, rule }, i) => {
+      if (!rule && !SERVICE_CHARS.test(char)) {
+        plain += char;
+        return;
+      }
+      const color = rule ? TYPOGRAPHY_RULE_COLORS[rule] : SOURCE_CHAR_COLOR;
+      const glyph = INVISIBLE_GLYPHS[char];
+      parts.push(plain, (
+        <span key={i} title={describeTypographyChar(char, rule)} className="relative cursor-help" style={{ color, backgroundColor: `${color}33` }}>
+          {char === '\u2060' ? '' : char === '\u2011' ? '-' : char}
+          {glyph && <span className="absolute top-0 left-1/2 -translate-x-1/2">{glyph}</span>}
+        </span>
+      ));
+      plain = '';
+    });
+    parts.push(plain);
+    return parts;
+  };
+
+  // Строки и кегль берутся из общей раскладки, поэтому переносы совпадают с PDF
+  const renderLines = (text: TextLayout, align: ColumnAlign, highlight?: boolean) => (
+    <div
+      className="w-full"
+      style={{
+        fontSize: mm(text.font.size),
+        lineHeight: mm(text.lineHeight),
+        fontWeight: text.font.bold ? 700 : 400,
+        fontStyle: text.font.italic ? 'italic' : 'normal',
+        textAlign: align
+      }}
+    >
+      {text.lines.map((line, i) => (
+        <div key={i} className="whitespace-pre">
+          {line ? (text.traced ? renderTracedLine(text.traced[i]) : highlight !== undefined ? renderMarkedLine(line, highlight) : line) : '\u00A0'}
+        </div>
+      ))}
+    </div>
+  );
+
+  // Редактор поверх ячейки; отступ сверху держит текст на месте разложенных строк
+  // В ячейках тела Enter и Tab завершают ввод и переходят дальше, Shift+Enter — перенос строки
+  const renderTextarea = (value: string, text: TextLayout, boxHeight: number, padX: number, align: ColumnAlign, onChange: (value: string) => void, caretClass: string, color: string, navigable = false) => (
+    <textarea
+      ref={activeInputRef}
+      data-cell-editor
+      value={value}
+      onKeyDown={(e) => {
+        if (e.key === ' ' || e.key === 'Enter') e.stopPropagation();
+        if (!navigable) return;
+        if (e.key === 'Enter' && !e.shiftKey && !e.altKey) {
+          e.preventDefault();
+          onCommitEdit(1, 0);
+        } else if (e.key === 'Tab') {
+          e.preventDefault();
+          onCommitEdit(0, e.shiftKey ? -1 : 1);
+        } else if (e.key === 'Escape') {
+          e.preventDefault();
+          onCancelEdit();
+        }
+      }}
+      onChange={(e) => onChange(e.target.value)}
+      className={`absolute inset-0 w-full h-full bg-transparent outline-none resize-none overflow-hidden font-inherit border-none block ${caretClass}`}
+      style={{
+        padding: `${Math.max(0, (boxHeight - Math.max(textBlockHeight(text), text.lineHeight)) / 2) * pxPerMm}px ${padX * pxPerMm}px 0`,
+        fontSize: mm(text.font.size),
+        fontWeight: text.font.bold ? 700 : 400,
+        fontStyle: text.font.italic ? 'italic' : 'normal',
+        textAlign: align,
+        lineHeight: mm(text.lineHeight),
+        color,
+        margin: '0'
+      }}
+    />
+  );
+
   const renderHeader = () => {
-    const commonStyle = (idx: number, isGroup?: boolean) => {
-      const rowIdx = isGroup ? -2 : -1;
-      const isSelected = selection?.rowIdx === rowIdx && selection?.colIdx === idx;
-      return {
-        borderColor: COLORS.border,
-        borderWidth: `${borderWidth}px`, 
-        color: '#FFFFFF',
-        textAlign: 'center' as const,
-        fontSize: `${baseHeaderFontSize}px`,
-        outline: isSelected ? `${borderWidth * 3}px solid #3B82F6` : 'none',
-        outlineOffset: `-${borderWidth * 1.5}px`,
-        overflow: 'visible' as const
-      };
-    };
+    const commonStyle = (isSelected: boolean) => ({
+      borderColor: COLORS.border,
+      borderWidth: `${borderWidth}px`, 
+      color: '#FFFFFF',
+      textAlign: 'center' as const,
+      outline: isSelected ? `${borderWidth * 3}px solid #3B82F6` : 'none',
+      outlineOffset: `-${borderWidth * 1.5}px`,
+      overflow: 'visible' as const,
+      padding: `0 ${mm(LAYOUT_UNITS.headerPadding)}`
+    });
 
     const thClass = "text-center font-bold align-middle border relative group/th cursor-pointer";
 
@@ -181,204 +334,156 @@ export const TableEditor: React.FC<TableEditorProps> = ({
 
     return (
       <thead style={{ overflow: 'visible' }}>
-        <tr style={{ backgroundColor: COLORS.headerBg, overflow: 'visible' }}>
-          {data.columns.slice(0, 8).map((col, idx) => (
-            <th 
-              key={col.id} 
-              rowSpan={2} 
-              className={thClass} 
-              onClick={(e) => { e.stopPropagation(); onSelect(-1, idx); }}
-              style={{ ...commonStyle(idx), width: `${col.width}%`, padding: `${headerPadding}px` }}
-            >
-              {renderEditableHeaderCell(idx)}
-              {renderColControls(idx)}
-            </th>
-          ))}
-          <th 
-            colSpan={2} 
-            className={thClass} 
-            onClick={(e) => { e.stopPropagation(); onSelect(-2, 8); }}
-            style={{ ...commonStyle(8, true), width: `${data.columns[8].width + data.columns[9].width}%`, padding: `${headerPadding}px` }}
-          >
-            {renderEditableHeaderCell(8, true)}
-            <button 
-              onClick={(e) => { e.stopPropagation(); onAddColumn(-1); }}
-              className="absolute -right-4 top-1/2 -translate-y-1/2 bg-blue-600 text-white rounded-full hover:bg-blue-700 shadow-lg z-[120] flex items-center justify-center transform hover:scale-125 transition-transform"
-              style={{ width: `${4 * pxPerMm}px`, height: `${4 * pxPerMm}px` }}
-            >
-              <Plus size={2.8 * pxPerMm} strokeWidth={4} />
-            </button>
-          </th>
-          {data.columns.slice(10).map((col, idx) => {
-            const actualIdx = idx + 10;
-            return (
-              <th 
-                key={col.id} 
-                rowSpan={2} 
-                className={thClass} 
-                onClick={(e) => { e.stopPropagation(); onSelect(-1, actualIdx); }}
-                style={{ ...commonStyle(actualIdx), width: `${col.width}%`, padding: `${headerPadding}px` }}
-              >
-                {renderEditableHeaderCell(actualIdx)}
-                {renderColControls(actualIdx)}
-              </th>
-            );
-          })}
-        </tr>
-        <tr style={{ backgroundColor: COLORS.headerBg, overflow: 'visible' }}>
-          <th 
-            className={thClass} 
-            onClick={(e) => { e.stopPropagation(); onSelect(-1, 8); }}
-            style={{ ...commonStyle(8), width: `${data.columns[8].width}%`, padding: `${headerPadding}px` }}
-          >
-            {renderEditableHeaderCell(8)}
-            {renderColControls(8)}
-          </th>
-          <th 
-            className={thClass} 
-            onClick={(e) => { e.stopPropagation(); onSelect(-1, 9); }}
-            style={{ ...commonStyle(9), width: `${data.columns[9].width}%`, padding: `${headerPadding}px` }}
-          >
-            {renderEditableHeaderCell(9)}
-            {renderColControls(9)}
-          </th>
-        </tr>
+        {layout.headerRows.map((cells, layoutRowIdx) => (
+          <tr key={layoutRowIdx} style={{ backgroundColor: COLORS.headerBg, overflow: 'visible', height: mm(layout.headerRowHeights[layoutRowIdx]) }}>
+            {cells.map(cell => {
+              if (cell.kind === 'group') {
+                const groupIdx = cell.groupIdx!;
+                const group = data.headerGroups![groupIdx];
+                const isSelected = selection?.rowIdx === -2 && selection?.colIdx === groupIdx;
+                return (
+                  <th 
+                    key={group.id}
+                    colSpan={cell.colSpan} 
+                    className={thClass} 
+                    onClick={(e) => { e.stopPropagation(); onSelect(-2, groupIdx); }}
+                    style={commonStyle(isSelected)}
+                  >
+                    {isSelected && isFirstPage
+                      ? renderTextarea(group.title, cell.text, cell.height, LAYOUT_UNITS.headerPadding, 'center', (title) => onUpdateGroupTitle(groupIdx, title), 'caret-white', '#FFFFFF')
+                      : renderLines(cell.text, 'center')}
+                    <button 
+                      onClick={(e) => { e.stopPropagation(); onAddColumnToGroup(groupIdx); }}
+                      className="absolute -right-4 top-1/2 -translate-y-1/2 bg-blue-600 text-white rounded-full hover:bg-blue-700 shadow-lg z-[120] flex items-center justify-center transform hover:scale-125 transition-transform opacity-0 group-hover/th:opacity-100"
+                      style={{ width: `${4 * pxPerMm}px`, height: `${4 * pxPerMm}px` }}
+                      title="Добавить колонку в группу"
+                    >
+                      <Plus size={2.8 * pxPerMm} strokeWidth={4} />
+                    </button>
+                  </th>
+                );
+              }
+              const col = data.columns[cell.colIdx];
+              const isSelected = selection?.rowIdx === -1 && selection?.colIdx === cell.colIdx;
+              return (
+                <th 
+                  key={col.id} 
+                  rowSpan={cell.rowSpan} 
+                  className={thClass} 
+                  data-cell={`-1:${cell.colIdx}`}
+                  onClick={(e) => { e.stopPropagation(); onSelect(-1, cell.colIdx, e.shiftKey); }}
+                  style={commonStyle(isSelected)}
+                  {...dropHandlers('column', cell.colIdx, onMoveColumn)}
+                >
+                  <div
+                    draggable
+                    onDragStart={(e) => startDrag(e, COLUMN_DRAG, cell.colIdx)}
+                    onClick={(e) => e.stopPropagation()}
+                    className="absolute left-1/2 -translate-x-1/2 top-0 z-[110] opacity-0 group-hover/th:opacity-100 transition-opacity text-white/60 hover:text-white cursor-grab active:cursor-grabbing"
+                    title="Перетащить колонку"
+                  >
+                    <GripHorizontal size={3 * pxPerMm} strokeWidth={3} />
+                  </div>
+                  {renderDropMark('column', cell.colIdx)}
+                  {isSelected && isFirstPage
+                    ? renderTextarea(col.title, cell.text, cell.height, LAYOUT_UNITS.headerPadding, 'center', (title) => onUpdateColumnTitle(cell.colIdx, title), 'caret-white', '#FFFFFF')
+                    : renderLines(cell.text, 'center', highlightOf(-1, cell.colIdx))}
+                  {renderColControls(cell.colIdx)}
+                </th>
+              );
+            })}
+          </tr>
+        ))}
       </thead>
     );
   };
 
-  const getRowNumber = (rIdx: number) => {
-    let count = 0;
-    for (let i = 0; i <= rIdx; i++) {
-      if (!data.rows[i].isTotal) count++;
-    }
-    return count;
-  };
-
   return (
     <div className="bg-white relative flex flex-col h-full" style={{ overflow: 'visible' }}>
       <div style={{ overflow: 'visible' }}>
         <table 
           ref={tableRef}
-          className="w-full border-collapse table-fixed select-none" 
-          style={{ border: `${borderWidth}px solid ${COLORS.border}`, overflow: 'visible' }}
+          onDragLeave={(e) => { if (!e.currentTarget.contains(e.relatedTarget as Node)) setDropTarget(null); }}
+          className="border-collapse table-fixed select-none" 
+          style={{ width: mm(layout.contentWidth), border: `${borderWidth}px solid ${COLORS.border}`, overflow: 'visible' }}
           lang="ru"
         >
+          <colgroup>
+            {data.columns.map((col, i) => <col key={col.id} style={{ width: mm(layout.colWidths[i]) }} />)}
+          </colgroup>
           {renderHeader()}
           <tbody style={{ overflow: 'visible' }}>
-            {data.rows.map((row, rIdx) => {
-              const isBodyRow = !row.isTotal;
-              let bodyIdx = 0;
-              if (isBodyRow) {
-                for (let i = 0; i < rIdx; i++) if (!data.rows[i].isTotal) bodyIdx++;
-              }
-              const rowBg = row.isTotal ? COLORS.totalBg : (bodyIdx % 2 === 0 ? COLORS.rowEven : COLORS.rowOdd);
+            {rowIndices.map((rIdx, i) => {
+              const row = data.rows[rIdx];
+              const rowBox = layout.rows[rIdx];
+              const rowBg = rowBgOf(rIdx);
 
               return (
                 <tr 
                   key={row.id}
                   className="group/row relative"
-                  style={{ backgroundColor: rowBg, overflow: 'visible' }}
+                  style={{ backgroundColor: rowBg, overflow: 'visible', height: mm(rowBox.height) }}
+                  {...dropHandlers('row', rIdx, onMoveRow)}
                 >
-                  {row.cells.map((cell, cIdx) => {
-                    const isSelected = selection?.rowIdx === rIdx && selection?.colIdx === cIdx;
-                    const isNumericCol = cIdx >= 7;
-                    const isFirstCol = cIdx === 0 && !row.isTotal;
-                    const isLastCol = cIdx === data.columns.length - 1;
-                    
-                    const cellValue = isFirstCol && cell.value === 'AUTO' ? getRowNumber(rIdx).toString() : cell.value;
-                    
-                    let currentFontSize = (cell.style?.fontSize ? cell.style.fontSize * pxPerMm : (isNumericCol ? largerFontSize : standardFontSize));
-                    const currentCircleSize = (cell.style?.circleSize ? cell.style.circleSize * pxPerMm : currentFontSize * 1.6);
-                    const fontWeight = cell.style?.fontWeight || (isFirstCol || isNumericCol || row.isTotal ? '700' : '400');
-                    const textAlign = cIdx === 4 ? 'left' : 'center';
+                  {fragmentRows[i].map(fragment => {
+                    const { anchorRow, anchorCol } = fragment;
+                    const cell = data.rows[anchorRow].cells[anchorCol];
+                    const isSelected = selection?.rowIdx === anchorRow && selection?.colIdx === anchorCol;
+                    const isCellEditing = isSelected && isEditing;
+                    const inRange = !isSelected && isInRange(selectionRange, anchorRow, anchorCol);
+                    const cellBox = layout.rows[anchorRow].cells[anchorCol];
+                    const isFirstCol = cellBox.circleSize !== null;
+                    const lastCol = fragment.col + fragment.colSpan - 1;
+                    const isLastCol = lastCol === data.columns.length - 1;
+                    const boxHeight = getFragmentSize(layout, fragment).height;
+                    const highlight = highlightOf(anchorRow, anchorCol);
+                    const issue = issueCells?.get(`${anchorRow}:${anchorCol}`);
 
                     return (
                       <td
-                        key={cell.id}
-                        onClick={(e) => { e.stopPropagation(); onSelect(rIdx, cIdx); }}
-                        className={`leading-tight border cursor-pointer relative group/cell ${
-                          isSelected ? 'bg-[#333333]' : ''
+                        key={row.cells[fragment.col].id}
+                        rowSpan={fragment.rowSpan}
+                        colSpan={fragment.colSpan}
+                        data-cell={`${anchorRow}:${anchorCol}`}
+                        title={issue}
+                        onClick={(e) => { e.stopPropagation(); onSelect(anchorRow, anchorCol, e.shiftKey); }}
+                        className={`border cursor-pointer relative group/cell ${
+                          isCellEditing ? 'bg-[#333333]' : ''
                         }`}
                         style={{ 
                           borderColor: COLORS.border,
-                          fontSize: `${currentFontSize}px`,
-                          fontWeight: fontWeight,
-                          textAlign: textAlign, 
                           verticalAlign: 'middle',
                           borderWidth: `${borderWidth}px`,
-                          color: row.isTotal ? COLORS.totalText : (isSelected ? '#f0f0f0' : COLORS.text),
-                          padding: `${cellPadding}px`, 
+                          // Фон строки-якоря на всю высоту объединения, как в PDF
+                          backgroundColor: fragment.rowSpan > 1 && !isCellEditing ? rowBgOf(anchorRow) : undefined,
+                          color: data.rows[anchorRow].isTotal ? COLORS.totalText : (isCellEditing ? '#f0f0f0' : COLORS.text),
+                          padding: `0 ${mm(LAYOUT_UNITS.cellPaddingX)}`, 
                           overflow: 'visible'
                         }}
                       >
                         {isFirstCol ? (
                           <div className="flex items-center justify-center h-full w-full">
                              <div 
-                                className="rounded-full flex items-center justify-center shadow-sm hover:scale-110 transition-transform cursor-pointer leading-none"
+                                className="rounded-full flex items-center justify-center shadow-sm hover:scale-110 transition-transform cursor-pointer"
                                 style={{ 
                                   backgroundColor: cell.style?.circleColor || '#1c9ad6',
-                                  width: `${currentCircleSize}px`,
-                                  height: `${currentCircleSize}px`,
-                                  fontSize: `${currentFontSize}px`,
-                                  fontWeight: fontWeight,
+                                  width: mm(cellBox.circleSize!),
+                                  height: mm(cellBox.circleSize!),
                                   color: '#FFFFFF'
                                 }}
                              >
-                               {cellValue}
+                               {renderLines(cellBox.text, 'center')}
                              </div>
                           </div>
+                        ) : isCellEditing && fragment.row === anchorRow ? (
+                          renderTextarea(cell.value, cellBox.text, boxHeight, LAYOUT_UNITS.cellPaddingX, cellBox.align, (value) => onUpdateCell(anchorRow, anchorCol, value), 'caret-blue-400', '#f0f0f0', true)
                         ) : (
-                          <div className="relative w-full h-full flex items-center overflow-hidden">
-                             <span 
-                               className="whitespace-pre-wrap invisible pointer-events-none select-none block w-full"
-                               style={{ 
-                                 lineHeight: '1.2',
-                                 padding: '0px',
-                                 fontSize: `${currentFontSize}px`
-                               }}
-                             >
-                               {formatRussianText(cellValue) || ' '}
-                             </span>
-
-                             {isSelected ? (
-                               <textarea
-                                 ref={activeInputRef}
-                                 value={cellValue}
-                                 onKeyDown={(e) => {
-                                   if (e.key === ' ' || e.key === 'Enter') e.stopPropagation();
-                                 }}
-                                 onChange={(e) => {
-                                   onUpdateCell(rIdx, cIdx, e.target.value);
-                                 }}
-                                 className="absolute inset-0 w-full h-full bg-transparent outline-none resize-none overflow-hidden font-inherit border-none caret-blue-400 block"
-                                 style={{
-                                   padding: '0px',
-                                   fontSize: `${currentFontSize}px`,
-                                   fontWeight: 'inherit',
-                                   textAlign: 'inherit',
-                                   lineHeight: '1.2',
-                                   color: '#f0f0f0',
-                                   margin: '0'
-                                 }}
-                               />
-                             ) : (
-                               <span 
-                                 className="absolute inset-0 flex items-center whitespace-pre-wrap break-words"
-                                 style={{ 
-                                   justifyContent: textAlign === 'left' ? 'flex-start' : 'center',
-                                   textAlign: textAlign
-                                 }}
-                               >
-                                 {formatRussianText(cellValue)}
-                               </span>
-                             )}
-                          </div>
+                          renderLines(cellBox.text, cellBox.align, highlight)
                         )}
 
                         {!isLastCol && (
                           <div 
-                            onMouseDown={(e) => handleMouseDownResizer(e, cIdx)}
+                            onMouseDown={(e) => handleMouseDownResizer(e, lastCol)}
                             className="absolute right-0 top-0 bottom-0 z-[50] group-hover/cell:opacity-100 opacity-0 transition-opacity flex items-center justify-center"
                             style={{ width: `${4 * pxPerMm}px`, cursor: 'col-resize', transform: 'translateX(50%)' }}
                           >
@@ -389,6 +494,29 @@ export const TableEditor: React.FC<TableEditorProps> = ({
                           </div>
                         )}
 
+                        {inRange && (
+                          <div className="absolute inset-0 pointer-events-none z-[50] bg-blue-500/15" />
+                        )}
+
+                        {issue !== undefined && !isCellEditing && (
+                          <div className="absolute inset-0 pointer-events-none z-[52] bg-red-500/10">
+                            <div
+                              className="absolute top-0 right-0"
+                              style={{ borderStyle: 'solid', borderWidth: `0 ${mm(1.6)} ${mm(1.6)} 0`, borderColor: 'transparent #EF4444 transparent transparent' }}
+                            />
+                          </div>
+                        )}
+
+                        {highlight !== undefined && !isSelected && (
+                          <div 
+                            className="absolute pointer-events-none z-[55]" 
+                            style={{ 
+                              inset: `-${borderWidth}px`, 
+                              border: `${borderWidth * (highlight ? 3 : 1.5)}px solid ${highlight ? '#F97316' : '#EAB308'}`
+                            }} 
+                          />
+                        )}
+
                         {isSelected && (
                           <div 
                             className="absolute pointer-events-none z-[60]" 
@@ -401,6 +529,17 @@ export const TableEditor: React.FC<TableEditorProps> = ({
                       </td>
                     );
                   })}
+                  {row.pageBreak && (
+                    <div 
+                      className="absolute top-0 z-[100] pointer-events-none text-blue-400"
+                      style={{ left: `-${controlSize * 1.1}px` }}
+                      title={row.pageBreak === 'before' ? 'Новый лист перед строкой' : 'Без разрыва перед строкой'}
+                    >
+                      {row.pageBreak === 'before' 
+                        ? <SeparatorHorizontal size={controlSize * 0.8} strokeWidth={3} /> 
+                        : <Link2 size={controlSize * 0.8} strokeWidth={3} />}
+                    </div>
+                  )}
                   {!row.isTotal && (
                     <div 
                       className="absolute top-1/2 -translate-y-1/2 opacity-0 group-hover/row:opacity-100 transition-all z-[100] pointer-events-none"
@@ -415,13 +554,32 @@ export const TableEditor: React.FC<TableEditorProps> = ({
                       </button>
                     </div>
                   )}
+                  {onMoveRow && (
+                    <div
+                      draggable
+                      onDragStart={(e) => startDrag(e, ROW_DRAG, rIdx)}
+                      onClick={(e) => e.stopPropagation()}
+                      className="absolute top-1/2 -translate-y-1/2 opacity-0 group-hover/row:opacity-100 transition-all z-[100] flex items-center justify-center text-gray-400 hover:text-blue-600 cursor-grab active:cursor-grabbing"
+                      style={{ right: `-${controlSize * 2.3}px`, width: `${controlSize}px`, height: `${controlSize}px` }}
+                      title="Перетащить строку"
+                    >
+                      <GripVertical size={controlSize * 0.8} strokeWidth={3} />
+                    </div>
+                  )}
+                  {renderDropMark('row', rIdx)}
                 </tr>
               );
             })}
           </tbody>
         </table>
 
-        <div className="flex mt-2 justify-center" style={{ overflow: 'visible' }}>
+        {isLastPage && data.legend?.enabled && data.legend.position === 'below' && (
+          <div style={{ marginTop: `${LEGEND_UNITS.offsetTop * pxPerMm}px` }}>
+            <LegendBlock title={data.legend.title} items={getUsedCategories(data)} pxPerMm={pxPerMm} />
+          </div>
+        )}
+
+        {isLastPage && <div className="flex mt-2 justify-center" style={{ overflow: 'visible' }}>
           <button 
             onClick={(e) => { e.stopPropagation(); onAddRow(); }}
             className="bg-blue-600 hover:bg-blue-700 text-white rounded-full flex items-center justify-center shadow-lg transition-transform hover:scale-110 active:scale-95"
@@ -430,7 +588,7 @@ export const TableEditor: React.FC<TableEditorProps> = ({
           >
             <Plus size={controlSize * 0.7} strokeWidth={4} />
           </button>
-        </div>
+        </div>}
       </div>
     </div>
   );
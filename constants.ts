@@ -1,5 +1,5 @@
 
-import { TableData } from './types';
+import { TableData, TableColumn, LegendSettings, PageFormat, PageSettings, DocumentSettings, TypographySettings } from './types';
 
 export const COLORS = {
   headerBg: '#9bc1e4',
@@ -10,8 +10,11 @@ export const COLORS = {
   rowEven: '#FFFFFF',
   rowOdd: '#E6F0F9', 
   selection: '#EBF2FF',
+  footerText: '#505050',
 };
 
+export const DEFAULT_CIRCLE_COLOR = '#1c9ad6';
+
 export const CIRCLE_PALETTE = [
   { color: '#f04423', label: 'Перспективные' },
   { color: '#00b06b', label: 'Законченные' },
@@ -26,35 +29,83 @@ export const CIRCLE_PALETTE = [
   { color: '#c36ca6', label: 'Ремонт' },
 ];
 
-export const INITIAL_COLUMNS = [
-  { id: 'c1', title: '№\nп/п', width: 2.5 },
-  { id: 'c2', title: 'Муниципальное образование', width: 9.0 },
-  { id: 'c3', title: 'Населенный пункт', width: 7.0 }, 
-  { id: 'c4', title: 'Принадлежность\nк ОНП', width: 6.5 },
-  { id: 'c5', title: 'Наименование мероприятия', width: 26.3 },
-  { id: 'c6', title: 'Тип мероприятия', width: 8.0 }, 
-  { id: 'c7', title: 'Вид объекта', width: 5.6 },
-  { id: 'c8', title: 'Протяженность,\nкм', width: 6.0 },
-  { id: 'c9', title: '(кол-во)', width: 4.8 },
-  { id: 'c10', title: 'Ед. изм.', width: 4.8 },
-  { id: 'c11', title: 'Период\nреализации', width: 6.0 },
-  { id: 'c12', title: 'Общая стоимость,\nтыс. руб. с НДС', width: 8.0 },
-  { id: 'c13', title: 'Охват населения,\nтыс. чел.', width: 5.5 },
+const NUMERIC_TEXT = { fontSize: 3.8, fontWeight: 700 };
+
+export const INITIAL_COLUMNS: TableColumn[] = [
+  { id: 'c1', title: '№\nп/п', width: 2.5, type: 'index' },
+  { id: 'c2', title: 'Муниципальное образование', width: 9.0, type: 'text' },
+  { id: 'c3', title: 'Населенный пункт', width: 7.0, type: 'text' }, 
+  { id: 'c4', title: 'Принадлежность\nк ОНП', width: 6.5, type: 'boolean' },
+  { id: 'c5', title: 'Наименование мероприятия', width: 26.3, type: 'text', align: 'left' },
+  { id: 'c6', title: 'Тип мероприятия', width: 8.0, type: 'text' }, 
+  { id: 'c7', title: 'Вид объекта', width: 5.6, type: 'text' },
+  { id: 'c8', title: 'Протяженность,\nкм', width: 6.0, type: 'number', ...NUMERIC_TEXT },
+  { id: 'c9', title: '(кол-во)', width: 4.8, type: 'number', ...NUMERIC_TEXT },
+  { id: 'c10', title: 'Ед. изм.', width: 4.8, type: 'unit', ...NUMERIC_TEXT },
+  { id: 'c11', title: 'Период\nреализации', width: 6.0, type: 'period', ...NUMERIC_TEXT },
+  { id: 'c12', title: 'Общая стоимость,\nтыс. руб. с НДС', width: 8.0, type: 'number', ...NUMERIC_TEXT },
+  { id: 'c13', title: 'Охват населения,\nтыс. чел.', width: 5.5, type: 'number', placeholder: '–', ...NUMERIC_TEXT },
 ];
 
+export const DEFAULT_LEGEND: LegendSettings = { enabled: false, position: 'below', title: 'Условные обозначения:' };
+
+// Размеры форматов в книжной ориентации, мм
+export const PAGE_FORMATS: Record<Exclude<PageFormat, 'custom'>, { label: string; width: number; height: number }> = {
+  a4: { label: 'A4', width: 210, height: 297 },
+  a3: { label: 'A3', width: 297, height: 420 },
+  a2: { label: 'A2', width: 420, height: 594 },
+};
+
+export const DEFAULT_PAGE: PageSettings = {
+  format: 'a3',
+  orientation: 'landscape',
+  width: 297,
+  height: 420,
+  margins: { top: 3, right: 3, bottom: 3, left: 3 }
+};
+
+export const DEFAULT_DOCUMENT: DocumentSettings = {
+  title: '',
+  subtitle: '',
+  appendix: '',
+  organization: '',
+  repeatTitle: false,
+  headerTemplate: 'Приложение № {appendix}',
+  footerLeft: '{organization}',
+  footerCenter: '{date}',
+  footerRight: 'Лист {page} из {pages}'
+};
+
+export const DEFAULT_TYPOGRAPHY: TypographySettings = {
+  disabled: [],
+  prepositions: [
+    'в', 'во', 'без', 'до', 'из', 'к', 'ко', 'на', 'над', 'о', 'об', 'обо',
+    'от', 'ото', 'по', 'под', 'подо', 'при', 'про', 'с', 'со', 'у', 'через',
+    'для', 'за', 'и', 'а', 'но', 'да', 'из-за', 'из-под', 'или', 'как', 'так'
+  ],
+  leadAbbreviations: ['г', 'ул', 'д', 'корп', 'стр', 'кв', 'пр-т', 'пр', 'наб', 'б-р', 'ш', 'оф', 'тел', 'пгт', 'с', 'пос', 'обл', 'р-н'],
+  trailAbbreviations: ['г', 'л', 'м', 'км', 'шт', 'руб', 'коп', 'чел', 'тыс', 'млн', 'млрд']
+};
+
 const createCells = (values: string[]) => values.map((v, i) => ({ 
   id: `cell-${Math.random()}-${i}`, 
   value: v,
-  style: i === 0 ? { circleColor: '#1c9ad6' } : undefined
+  style: INITIAL_COLUMNS[i].type === 'index' ? { circleColor: '#1c9ad6' } : undefined
 }));
 
 export const INITIAL_DATA: TableData = {
   columns: INITIAL_COLUMNS,
-  groupTitle: 'Мощность ОПН',
+  headerGroups: [
+    { id: 'g1', title: 'Мощность ОПН', startColId: 'c9', endColId: 'c10' }
+  ],
+  legend: { enabled: true, position: 'below', title: 'Условные обозначения:' },
+  page: DEFAULT_PAGE,
+  document: { ...DEFAULT_DOCUMENT, title: 'Ведомость модернизации' },
   rows: [
     {
       id: 'total',
       isTotal: true,
+      autoSum: true,
       cells: createCells(['', 'ВСЕГО', '', '', '', '', '', '0', '5,1', 'МВт', '2024–2030', '153 182,6', ''])
     },
     {
@@ -67,7 +118,3 @@ export const INITIAL_DATA: TableData = {
     }
   ]
 };
-
-export const A3_WIDTH_MM = 420;
-export const A3_HEIGHT_MM = 297;
-export const MARGIN_MM = 3;
@@ -0,0 +1,77 @@
+import { useState, useRef, useCallback } from 'react';
+
+/**
+ * Undo/redo history over an immutable value.
+ * Consecutive updates sharing the same group key collapse into one undo step
+ * (typing into one cell, one column resize drag) until `checkpoint()` is called.
+ * An open group can be discarded as a whole, as if it never happened.
+ */
+
+const HISTORY_LIMIT = 200;
+
+interface HistoryState<T> {
+  past: T[];
+  present: T;
+  future: T[];
+  groupStart: Omit<HistoryState<T>, 'groupStart'> | null; // история до первой правки открытой группы
+}
+
+type Updater<T> = T | ((prev: T) => T);
+
+export const useHistory = <T,>(initial: T) => {
+  const [state, setState] = useState<HistoryState<T>>({ past: [], present: initial, future: [], groupStart: null });
+  const groupRef = useRef<string | null>(null);
+
+  const set = useCallback((next: Updater<T>, group?: string) => {
+    const continuesGroup = group !== undefined && groupRef.current === group;
+    groupRef.current = group ?? null;
+    setState(prev => {
+      const value = typeof next === 'function' ? (next as (p: T) => T)(prev.present) : next;
+      if (value === prev.present) return prev;
+      if (continuesGroup && prev.groupStart) return { ...prev, present: value, future: [] };
+      const past = [...prev.past, prev.present].slice(-HISTORY_LIMIT);
+      const groupStart = group !== undefined ? { past: prev.past, present: prev.present, future: prev.future } : null;
+      return { past, present: value, future: [], groupStart };
+    });
+  }, []);
+
+  const undo = useCallback(() => {
+    groupRef.current = null;
+    setState(prev => {
+      if (prev.past.length === 0) return prev;
+      const previous = prev.past[prev.past.length - 1];
+      return { past: prev.past.slice(0, -1), present: previous, future: [prev.present, ...prev.future], groupStart: null };
+    });
+  }, []);
+
+  const redo = useCallback(() => {
+    groupRef.current = null;
+    setState(prev => {
+      if (prev.future.length === 0) return prev;
+      const [next, ...future] = prev.future;
+      return { past: [...prev.past, prev.present], present: next, future, groupStart: null };
+    });
+  }, []);
+
+  // Closes the current group so the next grouped update starts a new undo step.
+  const checkpoint = useCallback(() => { groupRef.current = null; }, []);
+
+  // Drops the updates of the still open `group` without an undo step: the value and the
+  // redo history return to what they were before the group started.
+  const discard = useCallback((group: string) => {
+    if (groupRef.current !== group) return;
+    groupRef.current = null;
+    setState(prev => prev.groupStart ? { ...prev.groupStart, groupStart: null } : prev);
+  }, []);
+
+  return {
+    present: state.present,
+    set,
+    undo,
+    redo,
+    checkpoint,
+    discard,
+    canUndo: state.past.length > 0,
+    canRedo: state.future.length > 0
+  };
+};
@@ -0,0 +1,174 @@
+import { TableData, TableRow } from '../types';
+import { getColumnMeta, applyCellInput } from './columnService';
+import { buildMergeGrid, isCovered } from './mergeService';
+import { getRowNumbers } from './groupingService';
+import { CellRange } from './selectionService';
+
+/**
+ * Clipboard exchange of cell ranges. A copied range goes out twice: as tab-separated
+ * text in the format Excel writes (a value with tabs, line breaks or quotes is quoted,
+ * a merged cell leaves its covered cells empty) and as an HTML table with the merges
+ * kept. Pasting prefers the HTML table, which Word puts on the clipboard with
+ * multi-line cells intact, and falls back to the tab-separated text.
+ */
+
+/** Values of the range as shown in the editor (AUTO replaced with the row number). */
+export const getRangeValues = (data: TableData, range: CellRange): string[][] => {
+  const grid = buildMergeGrid(data.rows);
+  const numbers = getRowNumbers(data);
+  const values: string[][] = [];
+  for (let r = range.top; r <= range.bottom; r++) {
+    const line: string[] = [];
+    for (let c = range.left; c <= range.right; c++) {
+      const value = data.rows[r]?.cells[c]?.value ?? '';
+      const isAuto = getColumnMeta(data.columns[c]).type === 'index' && value === 'AUTO';
+      line.push(isCovered(grid, r, c) ? '' : isAuto ? numbers[r].toString() : value);
+    }
+    values.push(line);
+  }
+  return values;
+};
+
+const quoteTsv = (value: string) => /[\t\n\r"]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+export const buildTsv = (values: string[][]) => values.map(line => line.map(quoteTsv).join('\t')).join('\r\n');
+
+const escapeHtml = (value: string) => value
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;')
+  .replace(/\n/g, '<br>');
+
+/** HTML table of the range; merges inside it keep their spans. */
+export const buildHtmlTable = (data: TableData, range: CellRange): string => {
+  const grid = buildMergeGrid(data.rows);
+  const values = getRangeValues(data, range);
+  const lines = values.map((line, i) => {
+    const r = range.top + i;
+    const cells = line.map((value, k) => {
+      const c = range.left + k;
+      if (isCovered(grid, r, c)) return '';
+      const area = grid[r][c];
+      const rowSpan = area ? Math.min(area.rowSpan, range.bottom - r + 1) : 1;
+      const colSpan = area ? Math.min(area.colSpan, range.right - c + 1) : 1;
+      const spans = `${rowSpan > 1 ? ` rowspan="${rowSpan}"` : ''}${colSpan > 1 ? ` colspan="${colSpan}"` : ''}`;
+      return `<td${spans}>${escapeHtml(value)}</td>`;
+    });
+    return `<tr>${cells.join('')}</tr>`;
+  });
+  return `<table>${lines.join('')}</table>`;
+};
+
+/** Tab-separated text as Excel writes it; a trailing line break does not add an empty row. */
+export const parseTsv = (text: string): string[][] => {
+  const src = text.replace(/\r\n?/g, '\n');
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  for (let i = 0; i < src.length; i++) {
+    const ch = src[i];
+    if (quoted) {
+      if (ch !== '"') field += ch;
+      else if (src[i + 1] === '"') { field += '"'; i++; }
+      else quoted = false;
+    } else if (ch === '"' && field === '') {
+      quoted = true;
+    } else if (ch === '\t') {
+      row.push(field);
+      field = '';
+    } else if (ch === '\n') {
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += ch;
+    }
+  }
+  if (field || row.length) rows.push([...row, field]);
+  return rows;
+};
+
+// Текст ячейки HTML: <br> и абзацы — переносы строк, остальные пробельные символы схлопываются
+const htmlCellText = (cell: Element): string => {
+  const parts: string[] = [];
+  const walk = (node: Node) => {
+    if (node.nodeType === Node.TEXT_NODE) {
+      parts.push((node.textContent || '').replace(/[ \t\r\n]+/g, ' '));
+    } else if (node.nodeName === 'BR') {
+      parts.push('\n');
+    } else if (node.nodeType === Node.ELEMENT_NODE) {
+      if (/^(P|DIV|LI)$/.test(node.nodeName) && parts.length > 0) parts.push('\n');
+      node.childNodes.forEach(walk);
+    }
+  };
+  cell.childNodes.forEach(walk);
+  return parts.join('').split('\n').map(line => line.trim()).join('\n').trim();
+};
+
+/** Values of the first HTML table, with row and column spans laid out on a grid; null without a table. */
+export const parseHtmlTable = (html: string): string[][] | null => {
+  const table = new DOMParser().parseFromString(html, 'text/html').querySelector('table');
+  if (!table) return null;
+  const grid: string[][] = [];
+  const taken: boolean[][] = [];
+  Array.from(table.rows).forEach((tr, r) => {
+    grid[r] = grid[r] || [];
+    taken[r] = taken[r] || [];
+    let c = 0;
+    Array.from(tr.cells).forEach(cell => {
+      while (taken[r][c]) c++;
+      const rowSpan = Math.max(1, cell.rowSpan || 1);
+      const colSpan = Math.max(1, cell.colSpan || 1);
+      for (let dr = 0; dr < rowSpan; dr++) {
+        grid[r + dr] = grid[r + dr] || [];
+        taken[r + dr] = taken[r + dr] || [];
+        for (let dc = 0; dc < colSpan; dc++) {
+          taken[r + dr][c + dc] = true;
+          grid[r + dr][c + dc] = dr === 0 && dc === 0 ? htmlCellText(cell) : '';
+        }
+      }
+      c += colSpan;
+    });
+  });
+  const width = Math.max(0, ...grid.map(line => line.length));
+  return grid.map(line => Array.from({ length: width }, (_, c) => line[c] ?? ''));
+};
+
+export const parseClipboard = (html: string, text: string): string[][] => {
+  const table = html ? parseHtmlTable(html) : null;
+  if (table && table.length > 0) return table;
+  return text ? parseTsv(text) : [];
+};
+
+/**
+ * Writes the block starting at display row `top` (rows follow `order`, the display order)
+ * and column `left`. Values are entered like typed input; the № column and cells covered
+ * by a merge are skipped, columns past the table edge are dropped and missing rows are
+ * appended with `createRow`.
+ */
+export const pasteBlock = (data: TableData, block: string[][], order: number[], top: number, left: number, createRow: (n: number) => TableRow): TableData => {
+  const grid = buildMergeGrid(data.rows);
+  const rows = [...data.rows];
+  let added = 0;
+  block.forEach((line, i) => {
+    let r = order[top + i];
+    if (r === undefined) {
+      rows.push(createRow(added++));
+      r = rows.length - 1;
+    }
+    const row = rows[r];
+    rows[r] = {
+      ...row,
+      cells: row.cells.map((cell, c) => {
+        const value = line[c - left];
+        const column = data.columns[c];
+        if (value === undefined || getColumnMeta(column).type === 'index' || isCovered(grid, r, c)) return cell;
+        return applyCellInput(column, row, cell, value);
+      })
+    };
+  });
+  return { ...data, rows };
+};
@@ -0,0 +1,115 @@
+import { TableColumn, TableRow, TableCell, ColumnType, ColumnAlign } from '../types';
+import { formatToFixed1 } from './formatService';
+
+/**
+ * Column metadata with defaults resolved, so renderers and editors never key
+ * behaviour on column positions.
+ */
+
+export interface ColumnMeta {
+  type: ColumnType;
+  align: ColumnAlign;
+  fontSize: number; // мм
+  fontWeight: number;
+  placeholder: string;
+  hyphenate: boolean;
+}
+
+export const COLUMN_TYPE_LABELS: Record<ColumnType, string> = {
+  index: '№ п/п',
+  text: 'Текст',
+  number: 'Число',
+  boolean: 'Да/Нет',
+  period: 'Период',
+  unit: 'Ед. изм.'
+};
+
+const DEFAULT_META: ColumnMeta = {
+  type: 'text',
+  align: 'center',
+  fontSize: 3.1,
+  fontWeight: 400,
+  placeholder: '',
+  hyphenate: false
+};
+
+export const getColumnMeta = (column: TableColumn | undefined): ColumnMeta => ({
+  type: column?.type ?? DEFAULT_META.type,
+  align: column?.align ?? DEFAULT_META.align,
+  fontSize: column?.fontSize ?? DEFAULT_META.fontSize,
+  fontWeight: column?.fontWeight ?? (column?.type === 'index' ? 700 : DEFAULT_META.fontWeight),
+  placeholder: column?.placeholder ?? DEFAULT_META.placeholder,
+  hyphenate: column?.hyphenate ?? DEFAULT_META.hyphenate
+});
+
+export const isNumberColumn = (column: TableColumn | undefined) => getColumnMeta(column).type === 'number';
+
+export const findIndexColumn = (columns: TableColumn[]) => columns.findIndex(c => c.type === 'index');
+
+/**
+ * Normalises a value entered into a body or total cell: Да/Нет casing,
+ * numeric rounding and the placeholder for missing values (e.g. a dash
+ * for empty population coverage). Total rows never get a placeholder.
+ */
+export const normalizeCellValue = (column: TableColumn | undefined, value: string, isTotal: boolean): string => {
+  const meta = getColumnMeta(column);
+  let val = value;
+  if (meta.type === 'boolean') {
+    if (val.toLowerCase().trim() === 'да') val = 'Да';
+    if (val.toLowerCase().trim() === 'нет') val = 'Нет';
+  }
+  if (meta.type === 'number') val = formatToFixed1(val);
+  if (meta.placeholder) {
+    const cleanVal = val.trim();
+    const isMissing = !cleanVal || cleanVal === meta.placeholder || (meta.type === 'number' && (cleanVal === '0' || cleanVal === '0,0'));
+    if (isMissing) val = isTotal ? "" : meta.placeholder;
+  }
+  return val;
+};
+
+/**
+ * Cell after a value is entered into it. Entering into a computed total cell
+ * pins it as a manual override; clearing it restores the sum.
+ */
+export const applyCellInput = (column: TableColumn | undefined, row: TableRow, cell: TableCell, value: string): TableCell => {
+  const val = normalizeCellValue(column, value, !!row.isTotal);
+  const isComputed = row.isTotal && row.autoSum && isNumberColumn(column);
+  return isComputed ? { ...cell, value: val, manual: val.trim() !== '' } : { ...cell, value: val };
+};
+
+/** False for values that do not fit the column type: text in a number column, anything but Да/Нет in a yes/no column. */
+export const isValidCellValue = (column: TableColumn | undefined, value: string): boolean => {
+  const meta = getColumnMeta(column);
+  const clean = value.trim();
+  if (!clean || clean === meta.placeholder) return true;
+  if (meta.type === 'number') return /^-?\d+([.,]\d+)?$/.test(clean.replace(/[\s\u00A0]/g, ''));
+  if (meta.type === 'boolean') return clean === 'Да' || clean === 'Нет';
+  return true;
+};
+
+// Раскладка колонок до появления метаданных: поведение задавалось позициями
+const LEGACY_LAYOUT: Partial<TableColumn>[] = [
+  { type: 'index' },
+  { type: 'text' },
+  { type: 'text' },
+  { type: 'boolean' },
+  { type: 'text', align: 'left' },
+  { type: 'text' },
+  { type: 'text' },
+  { type: 'number', fontSize: 3.8, fontWeight: 700 },
+  { type: 'number', fontSize: 3.8, fontWeight: 700 },
+  { type: 'unit', fontSize: 3.8, fontWeight: 700 },
+  { type: 'period', fontSize: 3.8, fontWeight: 700 },
+  { type: 'number', fontSize: 3.8, fontWeight: 700 },
+  { type: 'number', fontSize: 3.8, fontWeight: 700, placeholder: '–' },
+];
+
+/** Upgrades projects saved before columns carried type metadata. */
+export const migrateLegacyColumnTypes = <T extends { columns: TableColumn[] }>(data: T): T => {
+  if (data.columns.some(c => c.type)) return data;
+  const columns = data.columns.map((c, i) => ({
+    ...(LEGACY_LAYOUT[i] || (i >= 7 ? { type: 'text' as const, fontSize: 3.8, fontWeight: 700 } : { type: 'text' as const })),
+    ...c
+  }));
+  return { ...data, columns };
+};
@@ -0,0 +1,66 @@
+import { TableData, DocumentSettings } from '../types';
+import { DEFAULT_DOCUMENT } from '../constants';
+
+/**
+ * Title block and running footer: settings with defaults, template fields
+ * and the export filename built from the document title.
+ */
+
+export const DOCUMENT_UNITS = {
+  captionFontSize: 3.0,
+  titleFontSize: 5.0,
+  subtitleFontSize: 3.6,
+  footerFontSize: 2.6,
+  captionGap: 1.5,   // между строкой «Приложение №» и заголовком
+  subtitleGap: 1.0,
+  blockGap: 3.0,     // между заголовком и таблицей
+  footerGap: 2.0     // между таблицей и нижним колонтитулом
+};
+
+export const TEMPLATE_FIELDS: { key: string; label: string }[] = [
+  { key: 'title', label: 'заголовок' },
+  { key: 'subtitle', label: 'подзаголовок' },
+  { key: 'appendix', label: 'номер приложения' },
+  { key: 'organization', label: 'организация' },
+  { key: 'date', label: 'дата выгрузки' },
+  { key: 'page', label: 'номер листа' },
+  { key: 'pages', label: 'всего листов' },
+];
+
+export type TemplateValues = Record<string, string>;
+
+export const getDocumentSettings = (data: TableData): DocumentSettings => ({ ...DEFAULT_DOCUMENT, ...data.document });
+
+export const formatDocumentDate = (date: Date) => date.toLocaleDateString('ru-RU');
+
+export const getTemplateValues = (doc: DocumentSettings, date: Date, page: number, pages: number): TemplateValues => ({
+  title: doc.title,
+  subtitle: doc.subtitle,
+  appendix: doc.appendix,
+  organization: doc.organization,
+  date: formatDocumentDate(date),
+  page: String(page),
+  pages: String(pages)
+});
+
+/**
+ * Substitutes {field} placeholders. A template whose fields are all empty renders
+ * as an empty string, so "Приложение № {appendix}" disappears without a number.
+ */
+export const fillTemplate = (template: string, values: TemplateValues): string => {
+  const fields = [...template.matchAll(/\{(\w+)\}/g)].map(m => m[1]);
+  if (fields.length > 0 && fields.every(f => !(values[f] || '').trim())) return '';
+  return template.replace(/\{(\w+)\}/g, (match, key) => (key in values ? values[key] : match)).trim();
+};
+
+const FALLBACK_FILE_NAME = 'ведомость_модернизации';
+
+/** Filename from the document title: characters forbidden on Windows removed, spaces as underscores. */
+export const buildFileName = (data: TableData, extension: string) => {
+  const base = getDocumentSettings(data).title
+    .replace(/[\\/:*?"<>|«»\u0000-\u001f]+/g, '')
+    .replace(/\s+/g, '_')
+    .replace(/^[_.]+|[_.]+$/g, '')
+    .slice(0, 100);
+  return `${base || FALLBACK_FILE_NAME}.${extension}`;
+};
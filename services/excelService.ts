@@ -0,0 +1,95 @@
+import * as XLSX from 'xlsx';
+import { TableData, TypographySettings } from '../types';
+import { CIRCLE_PALETTE, DEFAULT_CIRCLE_COLOR } from '../constants';
+import { formatRussianText } from './formatService';
+import { buildHeaderLayout } from './headerService';
+import { getColumnMeta } from './columnService';
+import { parseNumericValue } from './totalsService';
+import { getMergeAreas, buildMergeGrid, isCovered } from './mergeService';
+import { getRowNumbers } from './groupingService';
+import { getTypographySettings, getColumnTypography, getCellTypography } from './typographyService';
+
+/**
+ * Excel export of the current table: grouped header and merged body cells as merged ranges,
+ * real numbers in numeric columns and the row category as a label column
+ * (the community build of xlsx cannot write cell fills).
+ */
+
+const CATEGORY_TITLE = 'Категория';
+
+// Word joiners only steer line breaking in our renderers; Excel shows them as stray glyphs
+const excelText = (value: string, typography: TypographySettings) => formatRussianText(value, typography).replace(/\u2060/g, '');
+
+const categoryLabel = (color: string | undefined) => {
+  const hex = (color || DEFAULT_CIRCLE_COLOR).toLowerCase();
+  return CIRCLE_PALETTE.find(p => p.color.toLowerCase() === hex)?.label || hex;
+};
+
+export const exportToExcel = (data: TableData, fileName = 'ведомость_модернизации_А3.xlsx') => {
+  const layout = buildHeaderLayout(data.columns, data.headerGroups);
+  const columnMeta = data.columns.map(c => getColumnMeta(c));
+  const typography = getTypographySettings(data);
+  const columnTypography = data.columns.map(c => getColumnTypography(typography, c));
+  const indexCol = columnMeta.findIndex(m => m.type === 'index');
+  const categoryCol = data.columns.length;
+  const ws: XLSX.WorkSheet = {};
+  const merges: XLSX.Range[] = [];
+
+  const put = (r: number, c: number, cell: XLSX.CellObject) => {
+    ws[XLSX.utils.encode_cell({ r, c })] = cell;
+  };
+
+  layout.rows.flat().forEach(cell => {
+    put(cell.rowIdx, cell.colIdx, { t: 's', v: excelText(cell.title, cell.kind === 'column' ? columnTypography[cell.colIdx] : typography) });
+    if (cell.rowSpan > 1 || cell.colSpan > 1) {
+      merges.push({
+        s: { r: cell.rowIdx, c: cell.colIdx },
+        e: { r: cell.rowIdx + cell.rowSpan - 1, c: cell.colIdx + cell.colSpan - 1 }
+      });
+    }
+  });
+  put(0, categoryCol, { t: 's', v: CATEGORY_TITLE });
+  if (layout.rowCount > 1) merges.push({ s: { r: 0, c: categoryCol }, e: { r: layout.rowCount - 1, c: categoryCol } });
+
+  const mergeGrid = buildMergeGrid(data.rows);
+  getMergeAreas(data.rows).forEach(area => merges.push({
+    s: { r: layout.rowCount + area.row, c: area.col },
+    e: { r: layout.rowCount + area.row + area.rowSpan - 1, c: area.col + area.colSpan - 1 }
+  }));
+
+  const numbers = getRowNumbers(data);
+  data.rows.forEach((row, rIdx) => {
+    const r = layout.rowCount + rIdx;
+    row.cells.forEach((cell, cIdx) => {
+      if (isCovered(mergeGrid, rIdx, cIdx)) return;
+      const meta = columnMeta[cIdx];
+      if (meta.type === 'index') {
+        if (row.isTotal) return;
+        const num = cell.value === 'AUTO' ? numbers[rIdx] : parseNumericValue(cell.value);
+        put(r, cIdx, num !== null ? { t: 'n', v: num } : { t: 's', v: cell.value });
+        return;
+      }
+      if (!cell.value) return;
+      const num = meta.type === 'number' ? parseNumericValue(cell.value) : null;
+      if (num !== null) {
+        put(r, cIdx, { t: 'n', v: num, z: Number.isInteger(num) ? '#,##0' : '#,##0.0' });
+      } else {
+        put(r, cIdx, { t: 's', v: excelText(cell.value, getCellTypography(columnTypography[cIdx], cell)) });
+      }
+    });
+    if (!row.isTotal && indexCol !== -1) {
+      put(r, categoryCol, { t: 's', v: categoryLabel(row.cells[indexCol]?.style?.circleColor) });
+    }
+  });
+
+  ws['!ref'] = XLSX.utils.encode_range({ s: { r: 0, c: 0 }, e: { r: layout.rowCount + data.rows.length - 1, c: categoryCol } });
+  ws['!merges'] = merges;
+  ws['!cols'] = [
+    ...data.columns.map(c => ({ wch: Math.max(4, Math.round(c.width * 1.6)) })),
+    { wch: 16 }
+  ];
+
+  const wb = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(wb, ws, 'Ведомость');
+  XLSX.writeFile(wb, fileName);
+};
@@ -0,0 +1,133 @@
+import { jsPDF } from 'jspdf';
+import { FontVariant, ProjectFont } from '../types';
+
+/**
+ * Fonts for the PDF export. Roboto Condensed ships with the app in public/fonts (OFL);
+ * additional families are uploaded by the user and stored inside the project,
+ * so export never needs the network.
+ */
+
+export const DEFAULT_FONT_FAMILY = 'Roboto Condensed';
+
+export const FONT_VARIANTS: FontVariant[] = ['normal', 'bold', 'italic', 'bolditalic'];
+
+export const FONT_VARIANT_LABELS: Record<FontVariant, string> = {
+  normal: 'Regular',
+  bold: 'Bold',
+  italic: 'Italic',
+  bolditalic: 'Bold Italic'
+};
+
+const fontUrl = (file: string) => `${import.meta.env.BASE_URL}fonts/${file}`;
+
+const BUNDLED_FONT_URLS: Record<FontVariant, string> = {
+  normal: fontUrl('RobotoCondensed-Regular.ttf'),
+  bold: fontUrl('RobotoCondensed-Bold.ttf'),
+  italic: fontUrl('RobotoCondensed-Italic.ttf'),
+  bolditalic: fontUrl('RobotoCondensed-BoldItalic.ttf')
+};
+
+const base64Cache = new Map<string, string>();
+
+export async function arrayBufferToBase64(buffer: ArrayBuffer): Promise<string> {
+  return new Promise((resolve) => {
+    const blob = new Blob([buffer], { type: 'application/octet-stream' });
+    const reader = new FileReader();
+    reader.onload = (e) => {
+      const dataUrl = e.target?.result as string;
+      if (dataUrl && dataUrl.includes(',')) {
+        resolve(dataUrl.split(',')[1]);
+      } else {
+        resolve('');
+      }
+    };
+    reader.readAsDataURL(blob);
+  });
+}
+
+const base64ToArrayBuffer = (base64: string): ArrayBuffer => {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes.buffer;
+};
+
+async function loadBundledFont(variant: FontVariant): Promise<string> {
+  const url = BUNDLED_FONT_URLS[variant];
+  const cached = base64Cache.get(url);
+  if (cached) return cached;
+  const response = await fetch(url);
+  if (!response.ok) throw new Error(`Не удалось загрузить встроенный шрифт (HTTP ${response.status})`);
+  const base64 = await arrayBufferToBase64(await response.arrayBuffer());
+  base64Cache.set(url, base64);
+  return base64;
+}
+
+export const readFontFile = async (file: File): Promise<string> => arrayBufferToBase64(await file.arrayBuffer());
+
+/** Families available to the project: the bundled one plus uploaded families. */
+export const getFontFamilies = (fonts: ProjectFont[] = []): string[] =>
+  [DEFAULT_FONT_FAMILY, ...new Set(fonts.map(f => f.family).filter(f => f !== DEFAULT_FONT_FAMILY))];
+
+/** jsPDF needs every variant it is asked for; missing ones fall back to the closest uploaded file. */
+const FALLBACK_ORDER: Record<FontVariant, FontVariant[]> = {
+  normal: ['normal', 'bold', 'italic', 'bolditalic'],
+  bold: ['bold', 'normal', 'bolditalic', 'italic'],
+  italic: ['italic', 'normal', 'bolditalic', 'bold'],
+  bolditalic: ['bolditalic', 'bold', 'italic', 'normal']
+};
+
+const vfsName = (family: string, variant: FontVariant) => `${family.replace(/\s+/g, '')}-${variant}.ttf`;
+
+/**
+ * Embeds the active family into the document and returns the jsPDF font name to use.
+ * Uploaded variants override bundled ones of the same family.
+ */
+export async function registerPdfFonts(doc: jsPDF, fonts: ProjectFont[] = [], family = DEFAULT_FONT_FAMILY): Promise<string> {
+  const files: Partial<Record<FontVariant, string>> = {};
+  if (family === DEFAULT_FONT_FAMILY) {
+    const bundled = await Promise.all(FONT_VARIANTS.map(loadBundledFont));
+    FONT_VARIANTS.forEach((v, i) => { files[v] = bundled[i]; });
+  }
+  fonts.filter(f => f.family === family).forEach(f => { files[f.variant] = f.data; });
+  if (Object.keys(files).length === 0) throw new Error(`Шрифт «${family}» не найден в проекте`);
+
+  const fontName = family.replace(/\s+/g, '');
+  FONT_VARIANTS.forEach(variant => {
+    const source = FALLBACK_ORDER[variant].find(v => files[v]);
+    const fileName = vfsName(family, variant);
+    doc.addFileToVFS(fileName, files[source!]!);
+    doc.addFont(fileName, fontName, variant);
+  });
+  return fontName;
+}
+
+const registeredFaces = new Set<string>();
+
+const faceDescriptors = (variant: FontVariant): FontFaceDescriptors => ({
+  weight: variant.startsWith('bold') ? '700' : '400',
+  style: variant.endsWith('italic') ? 'italic' : 'normal'
+});
+
+/** Makes the bundled and uploaded project fonts available to the on-screen editor through the FontFace API. */
+export const registerBrowserFonts = (fonts: ProjectFont[] = []) => {
+  FONT_VARIANTS.forEach(variant => {
+    const key = `bundled-${variant}`;
+    if (registeredFaces.has(key)) return;
+    registeredFaces.add(key);
+    const face = new FontFace(DEFAULT_FONT_FAMILY, `url(${BUNDLED_FONT_URLS[variant]})`, faceDescriptors(variant));
+    face.load().then(loaded => document.fonts.add(loaded)).catch(err => {
+      registeredFaces.delete(key);
+      console.error('Font load error:', err);
+    });
+  });
+  fonts.forEach(font => {
+    if (registeredFaces.has(font.id)) return;
+    registeredFaces.add(font.id);
+    const face = new FontFace(font.family, base64ToArrayBuffer(font.data), faceDescriptors(font.variant));
+    face.load().then(loaded => document.fonts.add(loaded)).catch(err => {
+      registeredFaces.delete(font.id);
+      console.error('Font load error:', err);
+    });
+  });
+};
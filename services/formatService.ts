@@ -1,100 +1,192 @@
+import { TypographyRuleId, TypographySettings } from '../types';
+import { DEFAULT_TYPOGRAPHY } from '../constants';
 
 /**
- * Applies Russian typography rules to strings while preserving line breaks.
- * Implements strict rules for addresses, prepositions, and abbreviations.
+ * Russian typography as a chain of named rules applied in order. Every rule can be
+ * switched off in the project or in a column, and the word lists come from the
+ * project profile. Line breaks are preserved.
  */
-export const formatRussianText = (text: string): string => {
-  if (!text || typeof text !== 'string') return text;
 
-  let f = text;
+export interface TypographyRule {
+  id: TypographyRuleId;
+  label: string;
+  apply: (text: string, settings: TypographySettings) => string;
+}
 
-  // Rule: If the entire cell is just a hyphen, convert to en-dash
-  if (f.trim() === '-') return '–';
+const escapeRegExp = (s: string) => s.replace(/[.*+?^${}()|[\]\\-]/g, '\\$&');
 
-  // 0. Rule for units: м2 -> м², м3 -> м³
-  f = f.replace(/м2(\b|$)/g, 'м²');
-  f = f.replace(/м3(\b|$)/g, 'м³');
+// Длинные слова в альтернативе раньше коротких: «пр-т» раньше «пр»
+const wordsPattern = (words: string[]) => words
+  .map(w => w.trim())
+  .filter(Boolean)
+  .sort((a, b) => b.length - a.length)
+  .map(escapeRegExp)
+  .join('|');
 
-  // 1. Quotes "..." -> «...»
-  f = f.replace(/(^|[\s\(\u00A0])"/g, '$1«');
-  f = f.replace(/"/g, '»');
+const isYear = (digits: string) => digits.length === 4 && (digits.startsWith('19') || digits.startsWith('20'));
 
-  // 2. Prepositions and short words: never leave them at the end of a line.
-  const preps = [
-    'в', 'во', 'без', 'до', 'из', 'к', 'ко', 'на', 'над', 'о', 'об', 'обо', 
-    'от', 'ото', 'по', 'под', 'подо', 'при', 'про', 'с', 'со', 'у', 'через', 
-    'для', 'за', 'и', 'а', 'но', 'да', 'из-за', 'из-под', 'или', 'как', 'так',
-    'над', 'под', 'pred', 'через'
-  ];
-  
-  const prepsPattern = preps.map(p => p.replace('-', '\\-')).join('|');
-  const prepRegex = new RegExp(`(^|[\\s\\(\\u00A0])(${prepsPattern})(\\s+)`, 'gi');
-  
-  for (let i = 0; i < 3; i++) {
-    f = f.replace(prepRegex, '$1$2\u00A0');
+export const TYPOGRAPHY_RULES: TypographyRule[] = [
+  {
+    id: 'singleDash',
+    label: 'Дефис в пустой ячейке → тире',
+    apply: f => f.trim() === '-' ? '–' : f
+  },
+  {
+    id: 'units',
+    label: 'м2, м3 → м², м³',
+    apply: f => f.replace(/м2(\b|$)/g, 'м²').replace(/м3(\b|$)/g, 'м³')
+  },
+  {
+    id: 'quotes',
+    label: 'Кавычки «ёлочки»',
+    apply: f => f.replace(/(^|[\s\(\u00A0])"/g, '$1«').replace(/"/g, '»')
+  },
+  {
+    // Предлоги и союзы не остаются в конце строки; три прохода для цепочек вроде «и в на».
+    // После предлога ищется обычный пробел: \s совпал бы и с уже поставленным неразрывным
+    id: 'prepositions',
+    label: 'Предлоги и союзы',
+    apply: (f, settings) => {
+      const pattern = wordsPattern(settings.prepositions);
+      if (!pattern) return f;
+      const prepRegex = new RegExp(`(^|[\\s\\(\\u00A0])(${pattern})([ \\t]+)`, 'gi');
+      for (let i = 0; i < 3; i++) f = f.replace(prepRegex, '$1$2\u00A0');
+      return f;
+    }
+  },
+  {
+    id: 'leadAbbreviations',
+    label: 'Сокращения перед словом (г., ул.)',
+    apply: (f, settings) => {
+      const pattern = wordsPattern(settings.leadAbbreviations);
+      if (!pattern) return f;
+      return f.replace(new RegExp(`(^|[\\s\\(\\u00A0])(${pattern})\\.(\\s*)`, 'gi'), '$1$2.\u00A0');
+    }
+  },
+  {
+    id: 'addressComma',
+    label: 'Запятая перед номером дома',
+    apply: f => f.replace(/,(\s+)(?=\d)/g, ',\u00A0')
+  },
+  {
+    id: 'trailAbbreviations',
+    label: 'Сокращения после числа (руб., тыс.)',
+    apply: (f, settings) => {
+      const pattern = wordsPattern(settings.trailAbbreviations);
+      if (!pattern) return f;
+      return f.replace(new RegExp(`(\\d)(\\s*)(${pattern})\\.`, 'gi'), '$1\u00A0$3.');
+    }
+  },
+  {
+    id: 'numberSign',
+    label: '№ с неразрывным пробелом',
+    apply: f => f.replace(/№(\s*)(\d)/g, '№\u00A0$2')
+  },
+  {
+    // Короткие скобки не отрываются от слова, содержимое скобок не разрывается:
+    // дефисы внутри неразрывные, края склеены word joiner (\u2060)
+    id: 'parentheses',
+    label: 'Скобки не разрываются',
+    apply: f => f
+      .replace(/(\S)\s+\((?=.{1,12}\))/g, '$1\u00A0(')
+      .replace(/\(([^)]+)\)/g, (_, content: string) => `(\u2060${content.replace(/-/g, '\u2011')}\u2060)`)
+      .replace(/\(\s+/g, '(')
+      .replace(/\s+\)/g, ')')
+  },
+  {
+    id: 'numberRanges',
+    label: 'Диапазоны чисел через тире (2024–2030)',
+    apply: f => f.replace(/(\d{2,4})-(\d{2,4})/g, '$1–$2')
+  },
+  {
+    id: 'dashes',
+    label: 'Тире вместо дефиса между словами',
+    apply: f => f.replace(/(\s+)-(\s+)/g, '\u00A0— ')
+  },
+  {
+    id: 'thousands',
+    label: 'Разряды чисел (17 018)',
+    apply: (f, settings) => {
+      const keepYears = !settings.disabled.includes('keepYears');
+      return f.replace(/\b\d{4,}\b/g, match => {
+        if (keepYears && isYear(match)) return match;
+        let res = '';
+        for (let i = 0; i < match.length; i++) {
+          if (i > 0 && (match.length - i) % 3 === 0) res += '\u00A0';
+          res += match[i];
+        }
+        return res;
+      });
+    }
+  },
+  {
+    // Учитывается правилом разрядов: 4-значные числа 19xx и 20xx считаются годами
+    id: 'keepYears',
+    label: 'Годы 19xx и 20xx без разрядов',
+    apply: f => f
   }
+];
 
-  // 3. Leading abbreviations: г., ул., д., корп., стр., кв., пгт., пр-т, наб.
-  const leadAbbrs = [
-    'г', 'ул', 'д', 'корп', 'стр', 'кв', 'пр\\-т', 'пр', 'наб', 'б\\-р', 
-    'ш', 'оф', 'тел', 'пгт', 'с', 'пос', 'обл', 'р\\-н', 'р\\-ne'
-  ];
-  const leadRegex = new RegExp(`(^|[\\s\\(\\u00A0])(${leadAbbrs.join('|')})\\.(\\s*)`, 'gi');
-  f = f.replace(leadRegex, '$1$2.\u00A0');
-
-  // 4. Address comma protection: "Street, 314"
-  f = f.replace(/,(\s+)(?=\d)/g, ',\u00A0');
-
-  // 5. Trailing abbreviations: г., л., м., км., руб., коп., тыс., млн.
-  const trailAbbrs = ['г', 'л', 'м', 'км', 'шт', 'руб', 'коп', 'чел', 'тыс', 'млн', 'млрд'];
-  const trailRegex = new RegExp(`(\\d)(\\s*)(${trailAbbrs.join('|')})\\.`, 'gi');
-  f = f.replace(trailRegex, '$1\u00A0$3.');
-
-  // 6. "№" always separated by a NON-BREAKING space from the number
-  f = f.replace(/№(\s*)(\d)/g, '№\u00A0$2');
-
-  // 7. Parentheses and suffix protection (Fix for broken brackets like "(-ей)")
-  // Ensure short parentheticals stay with previous word
-  f = f.replace(/(\S)\s+\((?=.{1,12}\))/g, '$1\u00A0(');
-  
-  // Protect internal content of parentheses from breaking
-  // Especially suffixes like (-ей), (-ти), (я). 
-  // We use Word Joiner (\u2060) which is a zero-width non-breaking space.
-  f = f.replace(/\(([^)]+)\)/g, (match, content) => {
-    // Replace any dash inside with non-breaking hyphen
-    const protectedContent = content.replace(/-/g, '\u2011');
-    // Wrap with Word Joiners to keep bracket and content as one unbreakable unit
-    return `(\u2060${protectedContent}\u2060)`;
-  });
-
-  // Ensure no line break after opening parenthesis and before closing parenthesis (redundant but safe)
-  f = f.replace(/\(\s+/g, '(');
-  f = f.replace(/\s+\)/g, ')');
+/** Applies the enabled typography rules; without settings all rules run with the built-in word lists. */
+export const formatRussianText = (text: string, settings: TypographySettings = DEFAULT_TYPOGRAPHY): string => {
+  if (!text || typeof text !== 'string') return text;
+  return TYPOGRAPHY_RULES.reduce((f, rule) => settings.disabled.includes(rule.id) ? f : rule.apply(f, settings), text);
+};
 
-  // 8. Dash rules
-  // Years range: 2024-2030 -> 2024–2030 (en-dash)
-  f = f.replace(/(\d{2,4})-(\d{2,4})/g, '$1–$2');
-  // Long dash for space-hyphen-space -> nbsp-emdash-space
-  f = f.replace(/(\s+)-(\s+)/g, '\u00A0— ');
-  
-  // 9. Thousands separator (non-breaking space)
-  // We process numbers but exclude 4-digit years (starting with 19 or 20)
-  const isYear = (numStr: string) => {
-    return numStr.length === 4 && (numStr.startsWith('19') || numStr.startsWith('20'));
-  };
+/** Formatted text with the rule that produced each character; null marks characters of the source text. */
+export interface TracedText {
+  text: string;
+  origins: (TypographyRuleId | null)[];
+}
 
-  f = f.replace(/\b\d{4,}\b/g, (match) => {
-    if (isYear(match)) return match;
-    
-    let res = '';
-    for (let i = 0; i < match.length; i++) {
-      if (i > 0 && (match.length - i) % 3 === 0) {
-        res += '\u00A0';
-      }
-      res += match[i];
+// Правила только вставляют, заменяют или убирают отдельные знаки, поэтому хватает
+// жадного сравнения строк до и после правила: новые знаки получают его имя
+const traceRule = (before: string, after: string, origins: (TypographyRuleId | null)[], rule: TypographyRuleId) => {
+  const result: (TypographyRuleId | null)[] = [];
+  let i = 0;
+  let j = 0;
+  while (j < after.length) {
+    if (i < before.length && before[i] === after[j]) {
+      result.push(origins[i++]);
+      j++;
+    } else if (before[i] === after[j + 1]) {
+      result.push(rule);
+      j++;
+    } else if (i + 1 < before.length && before[i + 1] !== after[j + 1] && before[i + 1] === after[j]) {
+      i++;
+    } else {
+      result.push(rule);
+      i++;
+      j++;
     }
-    return res;
+  }
+  return result;
+};
+
+/** Same result as formatRussianText, traced rule by rule for the invisible characters view. */
+export const traceRussianText = (text: string, settings: TypographySettings = DEFAULT_TYPOGRAPHY): TracedText => {
+  let traced: TracedText = { text, origins: new Array(text.length).fill(null) };
+  if (!text) return traced;
+  TYPOGRAPHY_RULES.forEach(rule => {
+    if (settings.disabled.includes(rule.id)) return;
+    const next = rule.apply(traced.text, settings);
+    if (next !== traced.text) traced = { text: next, origins: traceRule(traced.text, next, traced.origins, rule.id) };
   });
+  return traced;
+};
 
-  return f;
+/**
+ * Rounds a numeric string to one decimal place and writes it with a decimal comma.
+ * Non-numeric values are returned unchanged.
+ */
+export const formatToFixed1 = (val: string): string => {
+  if (!val || val === '–' || val.trim() === '') return val;
+  const clean = val.toString().replace(/\s/g, '').replace(',', '.');
+  const num = parseFloat(clean);
+  if (!isNaN(num) && /^-?\d+(\.\d+)?$/.test(clean)) {
+    const rounded = Math.round(num * 10) / 10;
+    if (rounded % 1 === 0) return rounded.toString();
+    return rounded.toString().replace('.', ',');
+  }
+  return val;
 };
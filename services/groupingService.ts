@@ -0,0 +1,117 @@
+import { TableData, TableRow, GroupingSettings } from '../types';
+import { CIRCLE_PALETTE, DEFAULT_CIRCLE_COLOR } from '../constants';
+import { getColumnMeta } from './columnService';
+import { buildMergeGrid, getEffectiveValue, getMergeAreas, releaseMerges, autoMergeColumn, removeRowFromMerges } from './mergeService';
+
+/**
+ * Group subtotals: body rows are clustered (or sorted) by a column, and every group
+ * gets a subtotal row above it. Subtotal sums are computed in totalsService, so they
+ * follow edits. Grouping by the № column groups rows by category colour.
+ * Grand total rows stay in place and split the table into independently grouped segments.
+ */
+
+const SUBTOTAL_LABEL = 'Итого';
+
+const categoryName = (color: string) =>
+  CIRCLE_PALETTE.find(p => p.color.toLowerCase() === color.toLowerCase())?.label || color;
+
+const compareKeys = (a: string, b: string) => {
+  if (!a || !b) return a ? -1 : b ? 1 : 0; // строки без значения — последней группой
+  return a.localeCompare(b, 'ru', { numeric: true });
+};
+
+/** Removes subtotal rows; merges crossing them are shortened. */
+export const removeSubtotals = (rows: TableRow[]): TableRow[] => {
+  let result = rows;
+  for (let i = rows.length - 1; i >= 0; i--) {
+    if (!rows[i].subtotal) continue;
+    result = removeRowFromMerges(result, i);
+    result.splice(i, 1);
+  }
+  return result;
+};
+
+export const applyGrouping = (data: TableData, settings: GroupingSettings): TableData => {
+  const colIdx = data.columns.findIndex(c => c.id === settings.columnId);
+  if (colIdx === -1) return data;
+  const byCategory = getColumnMeta(data.columns[colIdx]).type === 'index';
+  const labelCol = byCategory ? data.columns.findIndex(c => getColumnMeta(c).type === 'text') : colIdx;
+
+  const source = removeSubtotals(data.rows);
+  const grid = buildMergeGrid(source);
+  const keys = source.map((row, r) => byCategory
+    ? row.cells[colIdx]?.style?.circleColor || DEFAULT_CIRCLE_COLOR
+    : getEffectiveValue(source, grid, r, colIdx).trim());
+
+  // Объединения, которые после перестановки окажутся в разных группах, разбиваются
+  const areas = getMergeAreas(source);
+  const hadColumnMerges = areas.some(a => a.col === colIdx && a.colSpan === 1 && a.rowSpan > 1);
+  const broken = areas.filter(area => area.rowSpan > 1 && !source
+    .slice(area.row, area.row + area.rowSpan)
+    .every((row, i) => !row.isTotal && keys[area.row + i] === keys[area.row]));
+  const rows = releaseMerges(source, data.columns, broken);
+
+  const stamp = Date.now();
+  let subtotalCount = 0;
+  const makeSubtotal = (key: string): TableRow => {
+    const n = subtotalCount++;
+    const name = byCategory ? categoryName(key) : key;
+    return {
+      id: `r-sub-${stamp}-${n}`,
+      isTotal: true,
+      autoSum: true,
+      subtotal: true,
+      cells: data.columns.map((_, c) => ({
+        id: `c-sub-${stamp}-${n}-${c}`,
+        value: c === labelCol ? (name ? `${SUBTOTAL_LABEL}: ${name}` : SUBTOTAL_LABEL) : ''
+      }))
+    };
+  };
+
+  const result: TableRow[] = [];
+  let segment: number[] = [];
+  const flush = () => {
+    const groups = new Map<string, TableRow[]>();
+    segment.forEach(r => {
+      if (!groups.has(keys[r])) groups.set(keys[r], []);
+      groups.get(keys[r])!.push(rows[r]);
+    });
+    const order = [...groups.keys()];
+    if (settings.mode === 'sort') order.sort(compareKeys);
+    order.forEach(key => result.push(makeSubtotal(key), ...groups.get(key)!));
+    segment = [];
+  };
+  rows.forEach((row, r) => {
+    if (row.isTotal) {
+      flush();
+      result.push(row);
+    } else {
+      segment.push(r);
+    }
+  });
+  flush();
+
+  return {
+    ...data,
+    rows: hadColumnMerges ? autoMergeColumn(result, colIdx) : result,
+    grouping: settings
+  };
+};
+
+export const clearGrouping = (data: TableData): TableData => {
+  const { grouping, ...rest } = data;
+  return { ...rest, rows: removeSubtotals(data.rows) };
+};
+
+/** AUTO numbers for every row (0 for totals); numbering restarts after each subtotal when the grouping asks for it. */
+export const getRowNumbers = (data: TableData): number[] => {
+  const restart = !!data.grouping?.restartNumbering;
+  let n = 0;
+  return data.rows.map(row => {
+    if (row.isTotal) {
+      if (restart && row.subtotal) n = 0;
+      return 0;
+    }
+    return ++n;
+  });
+};
@@ -0,0 +1,154 @@
+import { HeaderGroup, TableColumn } from '../types';
+
+/**
+ * Multi-level header layout shared by the editor and the PDF export.
+ * Groups reference their first and last column by id, so they follow columns
+ * through insertions, deletions and resizing. Nesting depth is derived from containment.
+ */
+
+export interface HeaderCellLayout {
+  kind: 'column' | 'group';
+  title: string;
+  rowIdx: number;
+  rowSpan: number;
+  colIdx: number;
+  colSpan: number;
+  groupIdx?: number; // index in TableData.headerGroups
+}
+
+export interface HeaderLayout {
+  rowCount: number;
+  rows: HeaderCellLayout[][];
+}
+
+interface ResolvedGroup {
+  groupIdx: number;
+  start: number;
+  end: number;
+  depth: number;
+}
+
+const resolveSpan = (columns: TableColumn[], group: HeaderGroup): [number, number] | null => {
+  const a = columns.findIndex(c => c.id === group.startColId);
+  const b = columns.findIndex(c => c.id === group.endColId);
+  if (a === -1 || b === -1) return null;
+  return [Math.min(a, b), Math.max(a, b)];
+};
+
+const overlapsPartially = (a: [number, number], b: [number, number]) => {
+  const intersects = a[0] <= b[1] && b[0] <= a[1];
+  const nested = (a[0] <= b[0] && a[1] >= b[1]) || (b[0] <= a[0] && b[1] >= a[1]);
+  return intersects && !nested;
+};
+
+// Wider groups first; among equal spans the earlier group in the list is the outer one.
+const resolveGroups = (columns: TableColumn[], groups: HeaderGroup[]): ResolvedGroup[] => {
+  const candidates = groups
+    .map((g, groupIdx) => ({ groupIdx, span: resolveSpan(columns, g) }))
+    .filter((c): c is { groupIdx: number; span: [number, number] } => c.span !== null)
+    .sort((a, b) => (b.span[1] - b.span[0]) - (a.span[1] - a.span[0]) || a.groupIdx - b.groupIdx);
+
+  const accepted: ResolvedGroup[] = [];
+  candidates.forEach(({ groupIdx, span }) => {
+    if (accepted.some(g => overlapsPartially([g.start, g.end], span))) return;
+    const depth = accepted.filter(g => g.start <= span[0] && g.end >= span[1]).length;
+    accepted.push({ groupIdx, start: span[0], end: span[1], depth });
+  });
+  return accepted;
+};
+
+export const buildHeaderLayout = (columns: TableColumn[], groups: HeaderGroup[] = []): HeaderLayout => {
+  const resolved = resolveGroups(columns, groups);
+  const levels = resolved.reduce((max, g) => Math.max(max, g.depth + 1), 0);
+  const rowCount = levels + 1;
+  const rows: HeaderCellLayout[][] = Array.from({ length: rowCount }, () => []);
+
+  resolved.forEach(g => {
+    rows[g.depth].push({
+      kind: 'group',
+      title: groups[g.groupIdx].title,
+      rowIdx: g.depth,
+      rowSpan: 1,
+      colIdx: g.start,
+      colSpan: g.end - g.start + 1,
+      groupIdx: g.groupIdx
+    });
+  });
+
+  columns.forEach((col, colIdx) => {
+    const covering = resolved.filter(g => g.start <= colIdx && g.end >= colIdx);
+    const startRow = covering.reduce((max, g) => Math.max(max, g.depth + 1), 0);
+    rows[startRow].push({
+      kind: 'column',
+      title: col.title,
+      rowIdx: startRow,
+      rowSpan: rowCount - startRow,
+      colIdx,
+      colSpan: 1
+    });
+  });
+
+  rows.forEach(r => r.sort((a, b) => a.colIdx - b.colIdx));
+  return { rowCount, rows };
+};
+
+/** Returns false when the span would cut across another group instead of nesting in it. */
+export const canPlaceGroup = (
+  columns: TableColumn[],
+  groups: HeaderGroup[],
+  start: number,
+  end: number,
+  ignoreGroupId?: string
+): boolean => {
+  if (start < 0 || end >= columns.length || start > end) return false;
+  return groups.every(g => {
+    if (g.id === ignoreGroupId) return true;
+    const span = resolveSpan(columns, g);
+    return !span || !overlapsPartially(span, [start, end]);
+  });
+};
+
+export const getGroupSpan = (columns: TableColumn[], group: HeaderGroup) => resolveSpan(columns, group);
+
+/** Keeps groups valid after the column at `colIdx` is removed from `columns`. */
+export const removeColumnFromGroups = (
+  groups: HeaderGroup[],
+  columns: TableColumn[],
+  colIdx: number
+): HeaderGroup[] => {
+  const removedId = columns[colIdx].id;
+  return groups.flatMap(g => {
+    const span = resolveSpan(columns, g);
+    if (!span) return [];
+    const [start, end] = span;
+    if (colIdx < start || colIdx > end) return [g];
+    if (start === end) return [];
+    const startColId = columns[start].id === removedId ? columns[start + 1].id : columns[start].id;
+    const endColId = columns[end].id === removedId ? columns[end - 1].id : columns[end].id;
+    return [{ ...g, startColId, endColId }];
+  });
+};
+
+/**
+ * Keeps groups valid before the column at `colIdx` is moved elsewhere: it leaves the
+ * groups it bounds, while a group over this column alone moves with it.
+ */
+export const moveColumnInGroups = (
+  groups: HeaderGroup[],
+  columns: TableColumn[],
+  colIdx: number
+): HeaderGroup[] => groups.flatMap(g => {
+  const span = resolveSpan(columns, g);
+  if (span && span[0] === colIdx && span[1] === colIdx) return [g];
+  return removeColumnFromGroups([g], columns, colIdx);
+});
+
+/** Upgrades projects saved before header groups existed (single group over columns 9–10). */
+export const migrateLegacyGroupTitle = <T extends { columns: TableColumn[]; headerGroups?: HeaderGroup[]; groupTitle?: string }>(data: T) => {
+  if (data.headerGroups) return data;
+  const { groupTitle, ...rest } = data;
+  const headerGroups: HeaderGroup[] = groupTitle !== undefined && data.columns.length > 9
+    ? [{ id: `g${Date.now()}`, title: groupTitle, startColId: data.columns[8].id, endColId: data.columns[9].id }]
+    : [];
+  return { ...rest, headerGroups };
+};
@@ -0,0 +1,76 @@
+/**
+ * Russian syllable hyphenation by rules, so it works offline and needs no pattern
+ * dictionary. Break points are marked with soft hyphens (U+00AD): the line breaker
+ * may split a word there and adds a visible hyphen, otherwise the mark is dropped.
+ */
+
+export const SOFT_HYPHEN = '\u00AD';
+
+const VOWELS = 'аеёиоуыэюя';
+const CONSONANTS = 'бвгджзклмнпрстфхцчшщ';
+const SPECIAL = 'йьъ';
+// Одна буква не отрывается ни в начале, ни в конце слова
+const MIN_PART = 2;
+
+// Согласные, с которых может начинаться слог: шумный с сонорным («пр», «тр», «кв»)
+// и с, з, ш перед ними или перед шумным («сн», «ст», «стр», «сф»)
+const OBSTRUENTS = 'бвгджзкпстфхцчшщ';
+const SONORANTS = 'рлмнв';
+const SIBILANTS = 'сзш';
+
+const isOnset = (cluster: string): boolean => {
+  if (cluster.length <= 1) return true;
+  if (cluster[0] === cluster[1]) return false; // удвоенные делятся: кас-са
+  if (cluster.length === 2 && OBSTRUENTS.includes(cluster[0]) && SONORANTS.includes(cluster[1])) return true;
+  if (!SIBILANTS.includes(cluster[0])) return false;
+  return cluster.length === 2 ? OBSTRUENTS.includes(cluster[1]) : isOnset(cluster.slice(1));
+};
+
+/**
+ * Positions inside the word where it may be hyphenated (a break goes before the letter at the index).
+ * Each gap between two vowels gets one break: the next syllable takes the longest consonant cluster
+ * it can start with (элек-тро, во-до-снаб-же-ния), й, ь and ъ stay with the letter before them.
+ */
+export const getHyphenationPoints = (word: string): number[] => {
+  const letters = word.toLowerCase();
+  if (!Array.from(letters).every(ch => VOWELS.includes(ch) || CONSONANTS.includes(ch) || SPECIAL.includes(ch))) return [];
+  const vowels = Array.from(letters).flatMap((ch, i) => VOWELS.includes(ch) ? [i] : []);
+  const points: number[] = [];
+  vowels.slice(1).forEach((next, k) => {
+    const from = vowels[k] + 1;
+    // От самого длинного начала слога к самому короткому; пустое — только между гласными или после й, ь, ъ
+    for (let i = from; i <= next; i++) {
+      const onset = letters.slice(i, next);
+      const allowed = i === next
+        ? i === from || SPECIAL.includes(letters[i - 1])
+        : !Array.from(onset).some(ch => SPECIAL.includes(ch)) && isOnset(onset);
+      if (allowed && i >= MIN_PART && i <= letters.length - MIN_PART) {
+        points.push(i);
+        break;
+      }
+    }
+  });
+  return points;
+};
+
+const hyphenateWord = (word: string) => {
+  // Аббревиатуры (ОПН, МВт) не переносятся
+  if (/^[А-ЯЁ]{2}/.test(word)) return word;
+  let result = '';
+  let last = 0;
+  getHyphenationPoints(word).forEach(i => {
+    result += word.slice(last, i) + SOFT_HYPHEN;
+    last = i;
+  });
+  return result + word.slice(last);
+};
+
+/**
+ * Marks break points in Russian words of an already formatted text. Parentheses
+ * that formatRussianText glued with word joiners stay whole.
+ */
+export const hyphenateText = (text: string): string =>
+  text
+    .split(/(\u2060[^\u2060]*\u2060)/)
+    .map((part, i) => i % 2 === 1 ? part : part.replace(/[А-Яа-яЁё]{4,}/g, hyphenateWord))
+    .join('');
@@ -0,0 +1,299 @@
+import * as XLSX from 'xlsx';
+import { TableColumn, TableRow } from '../types';
+import { formatToFixed1 } from './formatService';
+import { getColumnMeta, normalizeCellValue } from './columnService';
+import { setCellSpan } from './mergeService';
+
+/**
+ * Excel import: header detection, name-based column mapping and row conversion.
+ * Mappings confirmed by the user are remembered per source format (the set of
+ * source header titles) in localStorage.
+ */
+
+export const EXCLUDED_TITLES = [
+  "код графика",
+  "учтено в графике",
+  "тип системы",
+  "тип объекта",
+  "эффект от реализации",
+  "реализация",
+  "источник финансирования"
+];
+
+const SUBHEADER_KEYWORDS = [
+  "(кол-во)",
+  "кол-во",
+  "ед. изм.",
+  "ед.изм.",
+  "единица измерения"
+];
+
+const HEADER_KEYWORDS = ["муниципальное", "образование", "мероприятие"];
+
+const MAPPINGS_STORAGE_KEY = 'tablitsa.importMappings';
+
+// Год программы: в исходных ведомостях им часто заполнен пустой охват
+const COVERAGE_FILLER_YEAR = "2022";
+
+/** Target column id → index of the source column, or null when left empty. */
+export type ColumnMapping = Record<string, number | null>;
+
+export interface SourceColumn {
+  index: number;
+  letter: string;
+  title: string;
+}
+
+export interface ImportSummary {
+  importedRows: number;
+  totalRows: number;
+  skippedEmptyRows: number;
+  mergedCells: number;
+  unmappedSources: { column: SourceColumn; filledCells: number }[];
+  unmappedTargets: TableColumn[];
+}
+
+export const readWorkbook = (file: File): Promise<XLSX.WorkBook> => new Promise((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = (evt) => {
+    try {
+      resolve(XLSX.read(evt.target?.result, { type: 'array' }));
+    } catch (err) {
+      reject(err);
+    }
+  };
+  reader.onerror = () => reject(reader.error);
+  reader.readAsArrayBuffer(file);
+});
+
+export const getSheetRows = (wb: XLSX.WorkBook, sheetName: string): unknown[][] => {
+  const ws = wb.Sheets[sheetName];
+  if (!ws) return [];
+  return XLSX.utils.sheet_to_json<unknown[]>(ws, { header: 1, defval: "" });
+};
+
+/** Merged ranges of the sheet in the coordinates of `getSheetRows`. */
+export const getSheetMerges = (wb: XLSX.WorkBook, sheetName: string): XLSX.Range[] => {
+  const ws = wb.Sheets[sheetName];
+  if (!ws || !ws['!ref'] || !ws['!merges']) return [];
+  const origin = XLSX.utils.decode_range(ws['!ref']).s;
+  return ws['!merges'].map(m => ({
+    s: { r: m.s.r - origin.r, c: m.s.c - origin.c },
+    e: { r: m.e.r - origin.r, c: m.e.c - origin.c }
+  }));
+};
+
+const cellText = (value: unknown) => (value === null || value === undefined ? '' : String(value));
+
+const rowText = (row: unknown[]) => row.map(cellText).join(" ").toLowerCase();
+
+const isEmptyRow = (row: unknown[]) => row.every(c => cellText(c).trim() === "");
+
+/** First row among the top ten mentioning typical header words; 0 when none does. */
+export const detectHeaderRow = (rows: unknown[][]): number => {
+  for (let i = 0; i < Math.min(10, rows.length); i++) {
+    const text = rowText(rows[i]);
+    if (HEADER_KEYWORDS.some(kw => text.includes(kw))) return i;
+  }
+  return 0;
+};
+
+/** Skips sub-header rows ("кол-во", "ед. изм.") and blank rows under the header. */
+export const detectDataStart = (rows: unknown[][], headerRowIdx: number): number => {
+  let idx = headerRowIdx + 1;
+  while (idx < rows.length) {
+    const row = rows[idx];
+    const isSubHeader = SUBHEADER_KEYWORDS.some(kw => rowText(row).includes(kw));
+    if (isSubHeader || isEmptyRow(row)) idx++;
+    else break;
+  }
+  return idx;
+};
+
+/** Source column titles combine the header row with the sub-header rows beneath it. */
+export const getSourceColumns = (rows: unknown[][], headerRowIdx: number, dataStartIdx: number): SourceColumn[] => {
+  const headerRows = rows.slice(headerRowIdx, Math.max(headerRowIdx + 1, dataStartIdx));
+  const width = rows.reduce((max, r) => Math.max(max, r.length), 0);
+  return Array.from({ length: width }, (_, index) => ({
+    index,
+    letter: XLSX.utils.encode_col(index),
+    title: headerRows.map(r => cellText(r[index]).trim()).filter(Boolean).join(' ')
+  }));
+};
+
+const normalizeTitle = (title: string) => title
+  .toLowerCase()
+  .replace(/[\s ⁠]+/g, ' ')
+  .replace(/[^a-zа-яё0-9 ]/gi, '')
+  .replace(/\s+/g, ' ')
+  .trim();
+
+const isExcluded = (title: string) => {
+  const lower = title.toLowerCase();
+  return EXCLUDED_TITLES.some(bl => lower.includes(bl));
+};
+
+const matchScore = (source: string, target: string) => {
+  const s = normalizeTitle(source);
+  const t = normalizeTitle(target);
+  if (!s || !t) return 0;
+  if (s === t) return 3;
+  if (s.includes(t) || t.includes(s)) return 2;
+  const sWords = new Set(s.split(' '));
+  const tWords = t.split(' ');
+  const common = tWords.filter(w => sWords.has(w)).length;
+  return common / tWords.length >= 0.5 ? 1 : 0;
+};
+
+export const getSourceSignature = (sources: SourceColumn[]) =>
+  sources.map(s => normalizeTitle(s.title)).join('|');
+
+type SavedMappings = Record<string, Record<string, string | null>>;
+
+const loadSavedMappings = (): SavedMappings => {
+  try {
+    return JSON.parse(localStorage.getItem(MAPPINGS_STORAGE_KEY) || '{}');
+  } catch {
+    return {};
+  }
+};
+
+/** Remembers the mapping by source titles, so it survives column reordering in the target table. */
+export const saveMapping = (sources: SourceColumn[], mapping: ColumnMapping) => {
+  const saved = loadSavedMappings();
+  const byTitle: Record<string, string | null> = {};
+  Object.entries(mapping).forEach(([colId, srcIdx]) => {
+    byTitle[colId] = srcIdx === null ? null : normalizeTitle(sources[srcIdx]?.title || '');
+  });
+  saved[getSourceSignature(sources)] = byTitle;
+  localStorage.setItem(MAPPINGS_STORAGE_KEY, JSON.stringify(saved));
+};
+
+/** Returns the saved mapping for this source format, or a best guess by column names. */
+export const suggestMapping = (sources: SourceColumn[], columns: TableColumn[]): { mapping: ColumnMapping; fromSaved: boolean } => {
+  const saved = loadSavedMappings()[getSourceSignature(sources)];
+  if (saved) {
+    const mapping: ColumnMapping = {};
+    columns.forEach(col => {
+      const title = saved[col.id];
+      const src = title ? sources.find(s => normalizeTitle(s.title) === title) : undefined;
+      mapping[col.id] = src ? src.index : null;
+    });
+    return { mapping, fromSaved: true };
+  }
+
+  const candidates: { colId: string; srcIdx: number; score: number }[] = [];
+  columns.forEach(col => {
+    if (getColumnMeta(col).type === 'index') return;
+    sources.forEach(src => {
+      if (isExcluded(src.title)) return;
+      const score = matchScore(src.title, col.title);
+      if (score > 0) candidates.push({ colId: col.id, srcIdx: src.index, score });
+    });
+  });
+  candidates.sort((a, b) => b.score - a.score || a.srcIdx - b.srcIdx);
+
+  const mapping: ColumnMapping = Object.fromEntries(columns.map(c => [c.id, null]));
+  const usedSources = new Set<number>();
+  candidates.forEach(({ colId, srcIdx }) => {
+    if (mapping[colId] !== null || usedSources.has(srcIdx)) return;
+    mapping[colId] = srcIdx;
+    usedSources.add(srcIdx);
+  });
+  return { mapping, fromSaved: false };
+};
+
+export interface BuildRowsOptions {
+  firstRowIsTotal: boolean;
+  merges?: XLSX.Range[];
+}
+
+export const buildImportedRows = (
+  rows: unknown[][],
+  dataStartIdx: number,
+  sources: SourceColumn[],
+  columns: TableColumn[],
+  mapping: ColumnMapping,
+  options: BuildRowsOptions
+): { rows: TableRow[]; summary: ImportSummary } => {
+  const dataRows = rows.slice(dataStartIdx);
+  const mappedText = (row: unknown[], column: TableColumn) => {
+    const srcIdx = mapping[column.id];
+    return srcIdx === null || srcIdx === undefined ? "" : cellText(row[srcIdx]);
+  };
+  // Стоимость для проверки охвата — ближайшая числовая колонка таблицы слева, а не соседняя колонка источника
+  const previousNumberColumn = columns.map((_, cIdx) =>
+    columns.slice(0, cIdx).reverse().find(c => getColumnMeta(c).type === 'number'));
+  const filled = dataRows.filter(r => !isEmptyRow(r));
+  const stamp = Date.now();
+
+  const importedIdx = new Map<number, number>();
+  dataRows.forEach((row, i) => { if (!isEmptyRow(row)) importedIdx.set(dataStartIdx + i, importedIdx.size); });
+
+  let tableRows: TableRow[] = filled.map((row, rIdx) => {
+    const text = rowText(row);
+    const isTotal = (options.firstRowIsTotal && rIdx === 0) || text.includes("всего") || text.includes("итого");
+    return {
+      id: `row-import-${stamp}-${rIdx}`,
+      isTotal,
+      cells: columns.map((column, cIdx) => {
+        const meta = getColumnMeta(column);
+        let val = mappedText(row, column);
+        const costColumn = previousNumberColumn[cIdx];
+
+        if (meta.type === 'number' && meta.placeholder && val) {
+          // В исходных ведомостях пустой охват часто заполнен копией стоимости или годом
+          const costVal = costColumn ? formatToFixed1(mappedText(row, costColumn)) : "";
+          if ((costVal && formatToFixed1(val) === costVal) || val === COVERAGE_FILLER_YEAR) val = "";
+        }
+        val = normalizeCellValue(column, val, isTotal);
+
+        const isIndex = meta.type === 'index';
+        return {
+          id: `cell-${stamp}-${rIdx}-${cIdx}`,
+          value: isIndex ? (isTotal ? "" : "AUTO") : val,
+          style: (isIndex && !isTotal) ? { circleColor: '#1c9ad6' } : undefined
+        };
+      })
+    };
+  });
+
+  // Объединения листа переносятся, если их колонки легли в соседние колонки таблицы
+  let mergedCells = 0;
+  (options.merges || []).forEach(m => {
+    if (m.s.r < dataStartIdx) return;
+    const targetRows: number[] = [];
+    for (let r = m.s.r; r <= m.e.r; r++) if (importedIdx.has(r)) targetRows.push(importedIdx.get(r)!);
+    const targetCols = columns
+      .map((column, cIdx) => ({ cIdx, srcIdx: mapping[column.id] }))
+      .filter(t => t.srcIdx !== null && t.srcIdx !== undefined && t.srcIdx >= m.s.c && t.srcIdx <= m.e.c)
+      .map(t => t.cIdx);
+    if (targetRows.length === 0 || targetCols.length === 0) return;
+    if (targetCols[targetCols.length - 1] - targetCols[0] + 1 !== targetCols.length) return;
+    if (targetRows.length === 1 && targetCols.length === 1) return;
+    const merged = setCellSpan(tableRows, targetRows[0], targetCols[0], targetRows.length, targetCols.length);
+    if (merged) {
+      tableRows = merged;
+      mergedCells++;
+    }
+  });
+
+  const mappedSources = new Set(Object.values(mapping).filter((v): v is number => v !== null));
+  const unmappedSources = sources
+    .filter(src => !mappedSources.has(src.index))
+    .map(column => ({ column, filledCells: filled.filter(r => cellText(r[column.index]).trim() !== '').length }))
+    .filter(s => s.filledCells > 0);
+  const unmappedTargets = columns.filter(c => getColumnMeta(c).type !== 'index' && (mapping[c.id] === null || mapping[c.id] === undefined));
+
+  return {
+    rows: tableRows,
+    summary: {
+      importedRows: tableRows.length,
+      totalRows: tableRows.filter(r => r.isTotal).length,
+      skippedEmptyRows: dataRows.length - filled.length,
+      mergedCells,
+      unmappedSources,
+      unmappedTargets
+    }
+  };
+};
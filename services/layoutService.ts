@@ -0,0 +1,425 @@
+import { jsPDF } from 'jspdf';
+import { TableData, ColumnAlign, LegendPosition, DocumentSettings, TypographySettings, TypographyRuleId } from '../types';
+import { formatRussianText, traceRussianText, TracedText } from './formatService';
+import { hyphenateText, SOFT_HYPHEN } from './hyphenationService';
+import { getTypographySettings, getColumnTypography, getCellTypography } from './typographyService';
+import { buildHeaderLayout, HeaderCellLayout } from './headerService';
+import { getColumnMeta, ColumnMeta } from './columnService';
+import { paginateRows, PAGE_BOTTOM_RESERVE } from './paginationService';
+import { getUsedCategories, LEGEND_UNITS } from './legendService';
+import { getPageGeometry, PageGeometry } from './pageService';
+import { getDocumentSettings, getTemplateValues, fillTemplate, DOCUMENT_UNITS } from './documentService';
+import { buildMergeGrid, isCovered, MergeGrid, CellFragment } from './mergeService';
+import { getRowNumbers } from './groupingService';
+
+/**
+ * Table geometry in millimetres: column widths, line breaks, row heights and circle sizes.
+ * The editor and the PDF both draw from this layout, so the screen matches the print.
+ */
+
+export const LAYOUT_UNITS = {
+  headerFontSize: 2.6,
+  headerPadding: 0.4,
+  headerMinRowHeight: 6.0,
+  cellPaddingX: 0.8,
+  cellPaddingY: 1.2,
+  minRowHeight: 6.0,
+  borderWidth: 0.1,
+  lineHeight: 1.15,
+  baseline: 0.92,      // от верха строки до базовой линии, в долях кегля
+  circleScale: 1.6,    // диаметр кружка по умолчанию относительно кегля
+  circlePadding: 1.0
+};
+
+export interface FontSpec {
+  size: number; // мм
+  bold: boolean;
+  italic: boolean;
+}
+
+/** Returns the advance width of `text` in millimetres. */
+export type TextMeasurer = (text: string, font: FontSpec) => number;
+
+/** Character of a laid out line and the typography rule that produced it (null — from the source text). */
+export interface TracedChar {
+  char: string;
+  rule: TypographyRuleId | null;
+}
+
+export interface TextLayout {
+  lines: string[];
+  traced?: TracedChar[][]; // те же строки со служебными знаками; только в режиме невидимых символов
+  font: FontSpec;
+  lineHeight: number;
+}
+
+export interface HeaderCellBox extends HeaderCellLayout {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  text: TextLayout;
+}
+
+export interface BodyCellBox {
+  value: string;        // отображаемое значение (AUTO уже заменён номером); пусто у покрытых ячеек
+  align: ColumnAlign;
+  text: TextLayout;
+  circleSize: number | null;
+}
+
+export interface RowBox {
+  height: number;
+  bodyIdx: number;      // -1 для итоговых строк
+  cells: BodyCellBox[];
+}
+
+export interface DocumentBlockLayout {
+  settings: DocumentSettings;
+  captionHeight: number;  // строка над заголовком с отступом; 0, если она пуста
+  title: TextLayout;
+  subtitle: TextLayout;
+  titleHeight: number;    // заголовок, подзаголовок и отступ до таблицы; 0 без заголовка
+  footerHeight: number;   // колонтитул с отступом от таблицы; 0, если он пуст
+}
+
+/** Legend element measured with the PDF font: the title (no colour) or a circle with its label. */
+export interface LegendChunk {
+  label: string;
+  color: string | null;
+  width: number;
+}
+
+export interface LegendLayout {
+  position: LegendPosition;
+  lines: LegendChunk[][];
+  lineHeight: number;
+  width: number;   // с внутренним отступом рамки
+  height: number;
+}
+
+export interface TableLayout {
+  page: PageGeometry;
+  document: DocumentBlockLayout;
+  contentWidth: number;
+  colWidths: number[];
+  colOffsets: number[];
+  columnMeta: ColumnMeta[];
+  headerRowHeights: number[];
+  headerHeight: number;
+  headerRows: HeaderCellBox[][];
+  rows: RowBox[];
+  merges: MergeGrid;
+  pages: number[][];
+  legend: LegendLayout | null; // на последнем листе; место под неё учтено в разбиении
+}
+
+/** Measures with jsPDF font metrics; used for the PDF and for the editor so both break lines identically. */
+export const createJsPdfMeasurer = (doc: jsPDF, fontName: string): TextMeasurer => {
+  const cache = new Map<string, number>();
+  return (text, font) => {
+    const key = `${font.size}|${font.bold ? 1 : 0}${font.italic ? 1 : 0}|${text}`;
+    let width = cache.get(key);
+    if (width === undefined) {
+      const style = font.italic ? (font.bold ? 'bolditalic' : 'italic') : (font.bold ? 'bold' : 'normal');
+      doc.setFont(fontName, style);
+      doc.setFontSize(font.size * (72 / 25.4));
+      width = doc.getTextWidth(text);
+      cache.set(key, width);
+    }
+    return width;
+  };
+};
+
+// Word joiner, soft hyphen and the non-breaking hyphen only steer breaking; renderers get plain glyphs
+const toDisplay = (line: string) => line.replace(/[\u2060\u00AD]/g, '').replace(/\u2011/g, '-');
+
+/** Splits a paragraph into unbreakable chunks; `space` marks a breakable space after the chunk. */
+const splitChunks = (paragraph: string) => {
+  const chunks: { text: string; space: boolean }[] = [];
+  let current = '';
+  for (let i = 0; i < paragraph.length; i++) {
+    const ch = paragraph[i];
+    if (ch === ' ' || ch === '\t') {
+      chunks.push({ text: current, space: true });
+      current = '';
+    } else {
+      current += ch;
+      // Перенос после дефиса внутри слова, как в браузере
+      const next = paragraph[i + 1];
+      if (ch === '-' && /[\p{L}\d]/u.test(paragraph[i - 1] || '') && next && /[\p{L}\d]/u.test(next)) {
+        chunks.push({ text: current, space: false });
+        current = '';
+      }
+    }
+  }
+  chunks.push({ text: current, space: false });
+  return chunks;
+};
+
+// Строки с word joiner, мягкими переносами и неразрывными дефисами, как их видит разбивка
+const breakLines = (text: string, maxWidth: number, font: FontSpec, measure: TextMeasurer): string[] => {
+  const fits = (s: string) => measure(toDisplay(s), font) <= maxWidth;
+  const lines: string[] = [];
+
+  text.split('\n').forEach(paragraph => {
+    let line = '';
+    let pendingSpace = false;
+
+    // Начало слова до мягкого переноса, которое помещается после `prefix` вместе с дефисом
+    const hyphenSplit = (prefix: string, word: string): [string, string] | null => {
+      for (let i = word.lastIndexOf(SOFT_HYPHEN); i > 0; i = word.lastIndexOf(SOFT_HYPHEN, i - 1)) {
+        const head = word.slice(0, i) + '-';
+        if (fits(prefix + head)) return [head, word.slice(i + 1)];
+      }
+      return null;
+    };
+
+    const breakLongWord = (word: string) => {
+      let rest = word;
+      while (rest.length > 0 && !fits(rest)) {
+        let n = 1;
+        while (n < rest.length && fits(rest.slice(0, n + 1))) n++;
+        lines.push(rest.slice(0, n));
+        rest = rest.slice(n);
+      }
+      return rest;
+    };
+
+    // Слово с начала строки: переносы по слогам, пока остаток не поместится
+    const startLine = (word: string) => {
+      let rest = word;
+      while (!fits(rest)) {
+        const split = hyphenSplit('', rest);
+        if (!split) return breakLongWord(rest);
+        lines.push(split[0]);
+        rest = split[1];
+      }
+      return rest;
+    };
+
+    splitChunks(paragraph).forEach(chunk => {
+      const prefix = line + (pendingSpace ? ' ' : '');
+      if (line === '' && !pendingSpace) {
+        line = startLine(chunk.text);
+      } else if (fits(prefix + chunk.text)) {
+        line = prefix + chunk.text;
+      } else {
+        const split = hyphenSplit(prefix, chunk.text);
+        lines.push(split ? prefix + split[0] : line);
+        line = startLine(split ? split[1] : chunk.text);
+      }
+      pendingSpace = chunk.space;
+    });
+    lines.push(line);
+  });
+
+  return lines;
+};
+
+/**
+ * Greedy line breaking that honours explicit newlines, NBSP, word joiners and non-breaking hyphens.
+ * A word that does not fit is hyphenated at the last soft hyphen that fits; words wider than
+ * the line without such a point are broken by characters.
+ */
+export const wrapText = (text: string, maxWidth: number, font: FontSpec, measure: TextMeasurer): string[] =>
+  breakLines(text, maxWidth, font, measure).map(toDisplay);
+
+// Строки разбивки сопоставляются с отформатированным текстом: пробелы и переводы строк на месте
+// разрывов выпали, мягкие переносы не показываются, а дефис переноса в тексте не было
+const traceLines = (lines: string[], traced: TracedText): TracedChar[][] => {
+  let k = 0;
+  return lines.map(line => {
+    const chars: TracedChar[] = [];
+    for (let i = 0; i < line.length; i++) {
+      const char = line[i];
+      if (char === SOFT_HYPHEN) continue;
+      while (k < traced.text.length && traced.text[k] !== char && /[ \t\n\u00AD]/.test(traced.text[k])) k++;
+      chars.push({ char, rule: traced.text[k] === char ? traced.origins[k++] : null });
+    }
+    return chars;
+  });
+};
+
+const layoutText = (text: string, maxWidth: number, font: FontSpec, measure: TextMeasurer, typography: TypographySettings, hyphenate = false, trace = false): TextLayout => {
+  const traced = trace ? traceRussianText(text, typography) : null;
+  const formatted = traced ? traced.text : formatRussianText(text, typography);
+  const lines = text ? breakLines(hyphenate ? hyphenateText(formatted) : formatted, maxWidth, font, measure) : [];
+  return {
+    lines: lines.map(toDisplay),
+    ...(traced ? { traced: traceLines(lines, traced) } : {}),
+    font,
+    lineHeight: font.size * LAYOUT_UNITS.lineHeight
+  };
+};
+
+export const textBlockHeight = (text: TextLayout) => text.lines.length * text.lineHeight;
+
+const layoutDocumentBlocks = (data: TableData, contentWidth: number, measure: TextMeasurer): DocumentBlockLayout => {
+  const settings = getDocumentSettings(data);
+  // Пустота шаблонов не зависит от номера листа и даты, проверяем на первом листе
+  const values = getTemplateValues(settings, new Date(), 1, 1);
+  const lineOf = (size: number) => size * LAYOUT_UNITS.lineHeight;
+
+  const captionHeight = fillTemplate(settings.headerTemplate, values)
+    ? lineOf(DOCUMENT_UNITS.captionFontSize) + DOCUMENT_UNITS.captionGap
+    : 0;
+  const typography = getTypographySettings(data);
+  const title = layoutText(settings.title, contentWidth, { size: DOCUMENT_UNITS.titleFontSize, bold: true, italic: false }, measure, typography);
+  const subtitle = layoutText(settings.subtitle, contentWidth, { size: DOCUMENT_UNITS.subtitleFontSize, bold: false, italic: false }, measure, typography);
+  const hasTitle = title.lines.length > 0 || subtitle.lines.length > 0;
+  const titleHeight = hasTitle
+    ? textBlockHeight(title) + (subtitle.lines.length ? DOCUMENT_UNITS.subtitleGap + textBlockHeight(subtitle) : 0) + DOCUMENT_UNITS.blockGap
+    : 0;
+  const hasFooter = [settings.footerLeft, settings.footerCenter, settings.footerRight].some(t => fillTemplate(t, values));
+  const footerHeight = hasFooter ? DOCUMENT_UNITS.footerGap + lineOf(DOCUMENT_UNITS.footerFontSize) : 0;
+
+  return { settings, captionHeight, title, subtitle, titleHeight, footerHeight };
+};
+
+// Элементы раскладываются по строкам с переносом, как flex-wrap в редакторе
+const layoutLegend = (data: TableData, contentWidth: number, measure: TextMeasurer): LegendLayout | null => {
+  const legend = data.legend;
+  const items = getUsedCategories(data);
+  if (!legend?.enabled || items.length === 0) return null;
+  const isBoxed = legend.position !== 'below';
+  const pad = isBoxed ? LEGEND_UNITS.padding : 0;
+  const maxWidth = (isBoxed ? contentWidth / 2 : contentWidth) - pad * 2;
+  const lineHeight = Math.max(LEGEND_UNITS.circleSize, LEGEND_UNITS.fontSize);
+  const labelFont: FontSpec = { size: LEGEND_UNITS.fontSize, bold: false, italic: false };
+  const chunks: LegendChunk[] = items.map(item => ({
+    label: item.label,
+    color: item.color,
+    width: LEGEND_UNITS.circleSize + LEGEND_UNITS.circleGap + measure(item.label, labelFont)
+  }));
+  if (legend.title) {
+    chunks.unshift({ label: legend.title, color: null, width: measure(legend.title, { size: LEGEND_UNITS.titleFontSize, bold: true, italic: false }) });
+  }
+
+  const lines: LegendChunk[][] = [[]];
+  let lineWidth = 0;
+  chunks.forEach(chunk => {
+    const line = lines[lines.length - 1];
+    const needed = (line.length ? LEGEND_UNITS.itemGap : 0) + chunk.width;
+    if (line.length && lineWidth + needed > maxWidth) {
+      lines.push([chunk]);
+      lineWidth = chunk.width;
+    } else {
+      line.push(chunk);
+      lineWidth += needed;
+    }
+  });
+  const lineWidths = lines.map(l => l.reduce((s, c, i) => s + c.width + (i ? LEGEND_UNITS.itemGap : 0), 0));
+  return {
+    position: legend.position,
+    lines,
+    lineHeight,
+    width: Math.max(...lineWidths) + pad * 2,
+    height: lines.length * lineHeight + (lines.length - 1) * LEGEND_UNITS.rowGap + pad * 2
+  };
+};
+
+/** Height above the table header on a given sheet: caption on every sheet, title on the first or on all. */
+export const getPageTopHeight = (doc: DocumentBlockLayout, pageIdx: number) =>
+  doc.captionHeight + (pageIdx === 0 || doc.settings.repeatTitle ? doc.titleHeight : 0);
+
+/** Size of a body cell or of the part of a merge that falls on one sheet. */
+export const getFragmentSize = (layout: TableLayout, fragment: CellFragment) => ({
+  width: layout.colWidths.slice(fragment.col, fragment.col + fragment.colSpan).reduce((s, w) => s + w, 0),
+  height: layout.rows.slice(fragment.row, fragment.row + fragment.rowSpan).reduce((s, r) => s + r.height, 0)
+});
+
+/**
+ * Column widths are normalised to the content width, so columns always fill the sheet.
+ * With `trace` the header and cell texts also keep their service characters for the editor.
+ */
+export const computeTableLayout = (data: TableData, measure: TextMeasurer, trace = false): TableLayout => {
+  const page = getPageGeometry(data);
+  const contentWidth = page.contentWidth;
+  const totalPercent = data.columns.reduce((s, c) => s + c.width, 0) || 1;
+  const colWidths = data.columns.map(c => (c.width / totalPercent) * contentWidth);
+  const colOffsets = colWidths.map((_, i) => colWidths.slice(0, i).reduce((s, w) => s + w, 0));
+  const columnMeta = data.columns.map(getColumnMeta);
+  const typography = getTypographySettings(data);
+  const columnTypography = data.columns.map(c => getColumnTypography(typography, c));
+  const spanWidth = (colIdx: number, colSpan: number) => colWidths.slice(colIdx, colIdx + colSpan).reduce((s, w) => s + w, 0);
+
+  // Ряды шапки растут под многострочные заголовки; объединённые ячейки добавляют высоту нижнему ряду
+  const headerLayout = buildHeaderLayout(data.columns, data.headerGroups);
+  const headerFont: FontSpec = { size: LAYOUT_UNITS.headerFontSize, bold: true, italic: false };
+  const headerTexts = new Map<HeaderCellLayout, TextLayout>();
+  headerLayout.rows.flat().forEach(cell => {
+    const width = spanWidth(cell.colIdx, cell.colSpan) - LAYOUT_UNITS.headerPadding * 2;
+    const isColumn = cell.kind === 'column';
+    const cellTypography = isColumn ? columnTypography[cell.colIdx] : typography;
+    headerTexts.set(cell, layoutText(cell.title, width, headerFont, measure, cellTypography, isColumn && columnMeta[cell.colIdx].hyphenate, trace));
+  });
+  const headerRowHeights = Array.from({ length: headerLayout.rowCount }, () => LAYOUT_UNITS.headerMinRowHeight);
+  [...headerTexts.keys()].sort((a, b) => a.rowSpan - b.rowSpan).forEach(cell => {
+    const needed = textBlockHeight(headerTexts.get(cell)!) + LAYOUT_UNITS.headerPadding * 2;
+    const spanned = headerRowHeights.slice(cell.rowIdx, cell.rowIdx + cell.rowSpan).reduce((s, h) => s + h, 0);
+    if (needed > spanned) headerRowHeights[cell.rowIdx + cell.rowSpan - 1] += needed - spanned;
+  });
+  const headerHeight = headerRowHeights.reduce((s, h) => s + h, 0);
+  const headerRows: HeaderCellBox[][] = headerLayout.rows.map(cells => cells.map(cell => ({
+    ...cell,
+    x: colOffsets[cell.colIdx],
+    y: headerRowHeights.slice(0, cell.rowIdx).reduce((s, h) => s + h, 0),
+    width: spanWidth(cell.colIdx, cell.colSpan),
+    height: headerRowHeights.slice(cell.rowIdx, cell.rowIdx + cell.rowSpan).reduce((s, h) => s + h, 0),
+    text: headerTexts.get(cell)!
+  })));
+
+  // Объединённая ячейка переносит текст по суммарной ширине; по вертикали её высота
+  // распределяется после расчёта обычных строк, добавляясь к нижней строке объединения
+  const merges = buildMergeGrid(data.rows);
+  const tallMerges: { row: number; rowSpan: number; needed: number }[] = [];
+  const numbers = getRowNumbers(data);
+  let bodyCount = 0;
+  const rows: RowBox[] = data.rows.map((row, r) => {
+    const bodyIdx = row.isTotal ? -1 : bodyCount++;
+    let height = LAYOUT_UNITS.minRowHeight;
+    const cells = row.cells.map((cell, i) => {
+      const meta = columnMeta[i];
+      const area = merges[r][i];
+      const covered = isCovered(merges, r, i);
+      const size = cell.style?.fontSize || meta.fontSize;
+      const isCircle = meta.type === 'index' && !row.isTotal && !covered;
+      const value = covered ? '' : (meta.type === 'index' && cell.value === 'AUTO') ? numbers[r].toString() : cell.value;
+      const bold = isCircle || !!row.isTotal || Number(cell.style?.fontWeight || meta.fontWeight) >= 700;
+      const font: FontSpec = { size, bold, italic: !isCircle && cell.style?.fontStyle === 'italic' };
+      const width = area ? spanWidth(i, area.colSpan) : colWidths[i];
+      const text = layoutText(value || '', width - LAYOUT_UNITS.cellPaddingX * 2, font, measure, getCellTypography(columnTypography[i], cell), meta.hyphenate, trace);
+      const circleSize = isCircle ? (cell.style?.circleSize || size * LAYOUT_UNITS.circleScale) : null;
+
+      let needed = textBlockHeight(text) + LAYOUT_UNITS.cellPaddingY * 2;
+      if (circleSize !== null) needed = Math.max(needed, circleSize + LAYOUT_UNITS.circlePadding * 2);
+      if (area && area.rowSpan > 1) {
+        if (!covered) tallMerges.push({ row: r, rowSpan: area.rowSpan, needed });
+      } else {
+        height = Math.max(height, needed);
+      }
+      return { value: value || '', align: isCircle ? 'center' : meta.align, text, circleSize };
+    });
+    return { height, bodyIdx, cells };
+  });
+  tallMerges.sort((a, b) => a.rowSpan - b.rowSpan).forEach(m => {
+    const spanned = rows.slice(m.row, m.row + m.rowSpan).reduce((s, row) => s + row.height, 0);
+    if (m.needed > spanned) rows[m.row + m.rowSpan - 1].height += m.needed - spanned;
+  });
+
+  const legend = layoutLegend(data, contentWidth, measure);
+  // Легенда под таблицей идёт с отступом за последней строкой, рамка в углу — у нижнего края листа
+  const legendReserve = !legend ? 0 : legend.height + (legend.position === 'below' ? LEGEND_UNITS.offsetTop : 0);
+  const documentBlocks = layoutDocumentBlocks(data, contentWidth, measure);
+  const tableArea = page.contentHeight - PAGE_BOTTOM_RESERVE - headerHeight - documentBlocks.footerHeight;
+  const pages = paginateRows(
+    data.rows,
+    rows.map(r => r.height),
+    tableArea - getPageTopHeight(documentBlocks, 1),
+    tableArea - getPageTopHeight(documentBlocks, 0),
+    legendReserve
+  );
+
+  return { page, document: documentBlocks, contentWidth, colWidths, colOffsets, columnMeta, headerRowHeights, headerHeight, headerRows, rows, merges, pages, legend };
+};
@@ -0,0 +1,41 @@
+import { TableData } from '../types';
+import { CIRCLE_PALETTE, DEFAULT_CIRCLE_COLOR } from '../constants';
+import { findIndexColumn } from './columnService';
+
+/**
+ * Category legend: which circle colours are in use and the shared geometry (mm)
+ * for drawing the legend in the editor and in the PDF.
+ */
+
+export const LEGEND_UNITS = {
+  titleFontSize: 2.8,
+  fontSize: 2.8,
+  circleSize: 3.2,
+  circleGap: 1.2,  // между кружком и подписью
+  itemGap: 5.0,    // между элементами
+  rowGap: 1.2,
+  offsetTop: 3.0,  // отступ от таблицы при размещении под ней
+  padding: 2.0     // внутренний отступ рамки в углу листа
+};
+
+export interface LegendItem {
+  color: string;
+  label: string;
+}
+
+/** Categories used by body rows, in palette order; unknown colours go last under their hex code. */
+export const getUsedCategories = (data: TableData): LegendItem[] => {
+  const indexCol = findIndexColumn(data.columns);
+  if (indexCol === -1) return [];
+  const used = new Set<string>();
+  data.rows.forEach(row => {
+    if (row.isTotal) return;
+    used.add((row.cells[indexCol]?.style?.circleColor || DEFAULT_CIRCLE_COLOR).toLowerCase());
+  });
+  const known = CIRCLE_PALETTE
+    .filter(p => used.has(p.color.toLowerCase()))
+    .map(p => ({ color: p.color, label: p.label }));
+  const knownColors = new Set(known.map(k => k.color.toLowerCase()));
+  const unknown = [...used].filter(c => !knownColors.has(c)).map(c => ({ color: c, label: c }));
+  return [...known, ...unknown];
+};
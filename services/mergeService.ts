@@ -0,0 +1,243 @@
+import { TableRow, TableCell, TableColumn } from '../types';
+import { getColumnMeta } from './columnService';
+
+/**
+ * Merged body cells. The span lives on the top-left (anchor) cell; covered cells
+ * stay in the grid with empty values, so row and column operations keep working
+ * on a rectangular table.
+ */
+
+export interface MergeArea {
+  row: number;
+  col: number;
+  rowSpan: number;
+  colSpan: number;
+}
+
+/** Part of a merge area visible on one sheet, or a plain cell (1×1 over itself). */
+export interface CellFragment {
+  row: number;
+  col: number;
+  rowSpan: number;
+  colSpan: number;
+  anchorRow: number;
+  anchorCol: number;
+}
+
+export type MergeGrid = (MergeArea | null)[][];
+
+const withSpan = (cell: TableCell, rowSpan: number, colSpan: number): TableCell => {
+  const { rowSpan: _r, colSpan: _c, ...rest } = cell;
+  return {
+    ...rest,
+    ...(rowSpan > 1 ? { rowSpan } : {}),
+    ...(colSpan > 1 ? { colSpan } : {})
+  };
+};
+
+const cloneRows = (rows: TableRow[]) => rows.map(r => ({ ...r, cells: [...r.cells] }));
+
+const intersects = (a: MergeArea, b: MergeArea) =>
+  a.row < b.row + b.rowSpan && b.row < a.row + a.rowSpan && a.col < b.col + b.colSpan && b.col < a.col + a.colSpan;
+
+/** Valid merge areas in reading order; spans are clipped to the table, overlapping areas are ignored. */
+export const getMergeAreas = (rows: TableRow[]): MergeArea[] => {
+  const areas: MergeArea[] = [];
+  rows.forEach((row, r) => row.cells.forEach((cell, c) => {
+    const rowSpan = Math.min(cell.rowSpan || 1, rows.length - r);
+    const colSpan = Math.min(cell.colSpan || 1, row.cells.length - c);
+    if (rowSpan <= 1 && colSpan <= 1) return;
+    const area = { row: r, col: c, rowSpan, colSpan };
+    if (areas.some(a => intersects(a, area))) return;
+    areas.push(area);
+  }));
+  return areas;
+};
+
+/** For every grid cell, the merge area covering it (anchors included), or null. */
+export const buildMergeGrid = (rows: TableRow[]): MergeGrid => {
+  const grid: MergeGrid = rows.map(r => r.cells.map(() => null));
+  getMergeAreas(rows).forEach(area => {
+    for (let r = area.row; r < area.row + area.rowSpan; r++) {
+      for (let c = area.col; c < area.col + area.colSpan; c++) grid[r][c] = area;
+    }
+  });
+  return grid;
+};
+
+/** Top-left cell of the merge covering (row, col); the cell itself when it is not merged. */
+export const getAnchor = (grid: MergeGrid, row: number, col: number): [number, number] => {
+  const area = grid[row]?.[col];
+  return area ? [area.row, area.col] : [row, col];
+};
+
+export const isCovered = (grid: MergeGrid, row: number, col: number) => {
+  const area = grid[row]?.[col];
+  return !!area && (area.row !== row || area.col !== col);
+};
+
+/** Value shown in the cell: covered cells show their anchor's value. */
+export const getEffectiveValue = (rows: TableRow[], grid: MergeGrid, row: number, col: number) => {
+  const [r, c] = getAnchor(grid, row, col);
+  return rows[r]?.cells[c]?.value ?? '';
+};
+
+/**
+ * Cells to draw for a sheet of consecutive rows, grouped by the row they start in.
+ * A merge cut by the page edge becomes a fragment on each sheet and repeats the anchor's content.
+ */
+export const getPageFragments = (grid: MergeGrid, pageRows: number[]): CellFragment[][] => {
+  if (pageRows.length === 0) return [];
+  const first = pageRows[0];
+  const last = pageRows[pageRows.length - 1];
+  return pageRows.map(r => {
+    const fragments: CellFragment[] = [];
+    grid[r].forEach((area, c) => {
+      if (!area) {
+        fragments.push({ row: r, col: c, rowSpan: 1, colSpan: 1, anchorRow: r, anchorCol: c });
+        return;
+      }
+      const startRow = Math.max(area.row, first);
+      if (r !== startRow || c !== area.col) return;
+      const endRow = Math.min(area.row + area.rowSpan - 1, last);
+      fragments.push({ row: r, col: c, rowSpan: endRow - r + 1, colSpan: area.colSpan, anchorRow: area.row, anchorCol: area.col });
+    });
+    return fragments;
+  });
+};
+
+/**
+ * Sets the span of the cell at (row, col). Newly covered cells are cleared, as in Excel
+ * only the top-left value survives. Returns null when the area leaves the table
+ * or cuts into another merge.
+ */
+export const setCellSpan = (rows: TableRow[], row: number, col: number, rowSpan: number, colSpan: number): TableRow[] | null => {
+  if (rowSpan < 1 || colSpan < 1 || row + rowSpan > rows.length || col + colSpan > (rows[row]?.cells.length || 0)) return null;
+  const target = { row, col, rowSpan, colSpan };
+  const others = getMergeAreas(rows).filter(a => a.row !== row || a.col !== col);
+  if (others.some(a => intersects(a, target))) return null;
+
+  const next = cloneRows(rows);
+  for (let r = row; r < row + rowSpan; r++) {
+    for (let c = col; c < col + colSpan; c++) {
+      if (r === row && c === col) continue;
+      next[r].cells[c] = { ...withSpan(next[r].cells[c], 1, 1), value: '', manual: undefined };
+    }
+  }
+  next[row].cells[col] = withSpan(next[row].cells[col], rowSpan, colSpan);
+  return next;
+};
+
+export const unmergeCell = (rows: TableRow[], row: number, col: number): TableRow[] => {
+  const next = cloneRows(rows);
+  next[row].cells[col] = withSpan(next[row].cells[col], 1, 1);
+  return next;
+};
+
+/**
+ * Drops merges before their rows are moved apart. Covered cells of a vertical text merge
+ * get the anchor's text, so each row stays readable on its own; numbers are not copied,
+ * otherwise totals would count them twice.
+ */
+export const releaseMerges = (rows: TableRow[], columns: TableColumn[], areas: MergeArea[]): TableRow[] => {
+  let next = rows;
+  areas.forEach(area => {
+    next = unmergeCell(next, area.row, area.col);
+    const type = getColumnMeta(columns[area.col]).type;
+    if (area.colSpan > 1 || type === 'number' || type === 'index') return;
+    const value = rows[area.row].cells[area.col].value;
+    for (let r = area.row + 1; r < area.row + area.rowSpan; r++) {
+      if (next[r].isTotal) continue;
+      next[r] = { ...next[r], cells: next[r].cells.map((cell, c) => c === area.col ? { ...cell, value } : cell) };
+    }
+  });
+  return next;
+};
+
+/** Removes all merges that start in the column. */
+export const unmergeColumn = (rows: TableRow[], col: number): TableRow[] =>
+  rows.map(r => (r.cells[col]?.rowSpan || r.cells[col]?.colSpan)
+    ? { ...r, cells: r.cells.map((cell, c) => c === col ? withSpan(cell, 1, 1) : cell) }
+    : r);
+
+/**
+ * Merges runs of identical non-empty values down the column. Total rows break runs,
+ * and cells belonging to horizontal merges are left alone. Existing vertical merges
+ * in the column are rebuilt from the values.
+ */
+export const autoMergeColumn = (rows: TableRow[], col: number): TableRow[] => {
+  const next = cloneRows(rows);
+  const blocked = new Set<number>();
+  getMergeAreas(rows).forEach(area => {
+    const isOwnVertical = area.col === col && area.colSpan === 1;
+    if (isOwnVertical) {
+      next[area.row].cells[col] = withSpan(next[area.row].cells[col], 1, 1);
+      // Покрытые ячейки пусты: восстанавливаем значение, чтобы серия не разорвалась
+      const value = rows[area.row].cells[col].value;
+      for (let r = area.row + 1; r < area.row + area.rowSpan; r++) next[r].cells[col] = { ...next[r].cells[col], value };
+    } else if (col >= area.col && col < area.col + area.colSpan) {
+      for (let r = area.row; r < area.row + area.rowSpan; r++) blocked.add(r);
+    }
+  });
+
+  const mergeable = (r: number) => !next[r].isTotal && !blocked.has(r) && next[r].cells[col].value.trim() !== '';
+  let start = 0;
+  while (start < next.length) {
+    if (!mergeable(start)) { start++; continue; }
+    const value = next[start].cells[col].value;
+    let end = start;
+    while (end + 1 < next.length && mergeable(end + 1) && next[end + 1].cells[col].value === value) end++;
+    if (end > start) {
+      next[start].cells[col] = withSpan(next[start].cells[col], end - start + 1, 1);
+      for (let r = start + 1; r <= end; r++) next[r].cells[col] = { ...next[r].cells[col], value: '', manual: undefined };
+    }
+    start = end + 1;
+  }
+  return next;
+};
+
+/** Shrinks or shifts merges before the row at `rowIdx` is removed; the caller removes the row. */
+export const removeRowFromMerges = (rows: TableRow[], rowIdx: number): TableRow[] => {
+  const next = cloneRows(rows);
+  getMergeAreas(rows).forEach(area => {
+    if (area.rowSpan === 1 || rowIdx < area.row || rowIdx >= area.row + area.rowSpan) return;
+    if (rowIdx === area.row) {
+      // Удаляется строка с якорем: содержимое переходит в следующую строку объединения
+      const anchor = next[area.row].cells[area.col];
+      const below = next[area.row + 1].cells[area.col];
+      next[area.row + 1].cells[area.col] = withSpan({ ...anchor, id: below.id }, area.rowSpan - 1, area.colSpan);
+    } else {
+      next[area.row].cells[area.col] = withSpan(next[area.row].cells[area.col], area.rowSpan - 1, area.colSpan);
+    }
+  });
+  return next;
+};
+
+/** Shrinks or shifts merges before the column at `colIdx` is removed; the caller removes the cells. */
+export const removeColumnFromMerges = (rows: TableRow[], colIdx: number): TableRow[] => {
+  const next = cloneRows(rows);
+  getMergeAreas(rows).forEach(area => {
+    if (area.colSpan === 1 || colIdx < area.col || colIdx >= area.col + area.colSpan) return;
+    const row = next[area.row];
+    if (colIdx === area.col) {
+      const anchor = row.cells[area.col];
+      row.cells[area.col + 1] = withSpan({ ...anchor, id: row.cells[area.col + 1].id }, area.rowSpan, area.colSpan - 1);
+    } else {
+      row.cells[area.col] = withSpan(row.cells[area.col], area.rowSpan, area.colSpan - 1);
+    }
+  });
+  return next;
+};
+
+/** Widens merges that a column inserted at `colIdx` landed inside; called after the cells are inserted. */
+export const insertColumnIntoMerges = (rows: TableRow[], colIdx: number): TableRow[] =>
+  rows.map(row => {
+    let changed = false;
+    const cells = row.cells.map((cell, c) => {
+      const colSpan = cell.colSpan || 1;
+      if (c === colIdx || colSpan === 1 || c >= colIdx || c + colSpan - 1 < colIdx) return cell;
+      changed = true;
+      return withSpan(cell, cell.rowSpan || 1, colSpan + 1);
+    });
+    return changed ? { ...row, cells } : row;
+  });
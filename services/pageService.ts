@@ -0,0 +1,41 @@
+import { TableData, PageSettings } from '../types';
+import { DEFAULT_PAGE, PAGE_FORMATS } from '../constants';
+
+/**
+ * Sheet geometry from the project's page settings: oriented sheet size
+ * and the content box inside the margins, all in millimetres.
+ */
+
+export interface PageGeometry {
+  width: number;
+  height: number;
+  margins: PageSettings['margins'];
+  contentWidth: number;
+  contentHeight: number;
+}
+
+// Меньше этого поле под таблицу не сжимается, чтобы раскладка не вырождалась
+const MIN_CONTENT_MM = 20;
+
+export const getPageSettings = (data: TableData): PageSettings => ({
+  ...DEFAULT_PAGE,
+  ...data.page,
+  margins: { ...DEFAULT_PAGE.margins, ...data.page?.margins }
+});
+
+export const getPageGeometry = (data: TableData): PageGeometry => {
+  const page = getPageSettings(data);
+  const base = page.format === 'custom' ? page : PAGE_FORMATS[page.format];
+  const short = Math.min(base.width, base.height);
+  const long = Math.max(base.width, base.height);
+  const width = page.orientation === 'landscape' ? long : short;
+  const height = page.orientation === 'landscape' ? short : long;
+  const { margins } = page;
+  return {
+    width,
+    height,
+    margins,
+    contentWidth: Math.max(MIN_CONTENT_MM, width - margins.left - margins.right),
+    contentHeight: Math.max(MIN_CONTENT_MM, height - margins.top - margins.bottom)
+  };
+};
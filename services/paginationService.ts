@@ -0,0 +1,55 @@
+import { TableRow } from '../types';
+
+/**
+ * Splits table rows into PDF pages. Row heights come from the layout engine,
+ * so the editor preview and the export share one pagination.
+ */
+
+// Запас под нижним полем листа, как было в drawRow
+export const PAGE_BOTTOM_RESERVE = 5;
+
+/**
+ * Greedy fill with two overrides: `pageBreak: 'before'` always opens a new page,
+ * `pageBreak: 'avoid'` moves the break up to the nearest row that may start a page.
+ * `lastPageReserve` is kept free on the last page (the legend); when it does not fit,
+ * the last rows move to a new page with it. A page that cannot be broken anywhere simply overflows.
+ */
+export const paginateRows = (rows: TableRow[], rowHeights: number[], available: number, firstPageAvailable = available, lastPageReserve = 0): number[][] => {
+  const pages: number[][] = [[]];
+  let used = 0;
+
+  rows.forEach((row, rIdx) => {
+    let page = pages[pages.length - 1];
+    const height = rowHeights[rIdx] || 0;
+
+    if (page.length > 0 && row.pageBreak === 'before') {
+      page = [];
+      pages.push(page);
+      used = 0;
+    } else if (page.length > 0 && used + height > (pages.length === 1 ? firstPageAvailable : available)) {
+      let breakAt = page.length;
+      if (row.pageBreak === 'avoid') {
+        breakAt--;
+        while (breakAt > 0 && rows[page[breakAt]].pageBreak === 'avoid') breakAt--;
+      }
+      if (breakAt > 0) {
+        const moved = page.splice(breakAt);
+        page = moved;
+        pages.push(page);
+        used = moved.reduce((s, i) => s + (rowHeights[i] || 0), 0);
+      }
+    }
+
+    page.push(rIdx);
+    used += height;
+  });
+
+  const last = pages[pages.length - 1];
+  if (lastPageReserve > 0 && used + lastPageReserve > (pages.length === 1 ? firstPageAvailable : available)) {
+    let breakAt = last.length - 1;
+    while (breakAt > 0 && rows[last[breakAt]].pageBreak === 'avoid') breakAt--;
+    if (breakAt > 0) pages.push(last.splice(breakAt));
+  }
+
+  return pages;
+};
@@ -1,90 +1,50 @@
-
 import { jsPDF } from 'jspdf';
-import { TableData, TableRow } from '../types';
-import { A3_WIDTH_MM, A3_HEIGHT_MM, MARGIN_MM, COLORS } from '../constants';
-import { formatRussianText } from './formatService';
+import { TableData } from '../types';
+import { COLORS } from '../constants';
+import { LEGEND_UNITS } from './legendService';
+import { registerPdfFonts } from './fontService';
+import { getPageGeometry } from './pageService';
+import { computeTableLayout, createJsPdfMeasurer, textBlockHeight, getFragmentSize, LAYOUT_UNITS, TextLayout, TextMeasurer, FontSpec, LegendLayout } from './layoutService';
+import { getTemplateValues, fillTemplate, buildFileName, DOCUMENT_UNITS } from './documentService';
+import { getPageFragments } from './mergeService';
 
 /**
- * World-class PDF Export Service with precise unit matching and fixed header proportions.
+ * PDF export. Geometry and line breaks come from the shared layout engine,
+ * this module only draws them.
  */
 
-const FONT_SOURCES = {
-  regular: [
-    'https://cdn.jsdelivr.net/gh/googlefonts/roboto@master/src/hinted/RobotoCondensed-Regular.ttf',
-    'https://raw.githubusercontent.com/google/fonts/main/ofl/robotocondensed/static/RobotoCondensed-Regular.ttf'
-  ],
-  bold: [
-    'https://cdn.jsdelivr.net/gh/googlefonts/roboto@master/src/hinted/RobotoCondensed-Bold.ttf',
-    'https://raw.githubusercontent.com/google/fonts/main/ofl/robotocondensed/static/RobotoCondensed-Bold.ttf'
-  ]
-};
+const mmToPt = (mm: number) => mm * (72 / 25.4);
 
-const UI_UNITS = {
-  headerFontSize: 2.6, // Фиксированный размер шрифта шапки (как в UI)
-  standardFontSize: 3.1, 
-  numericFontSize: 3.8, 
-  cellPadding: 0.8, 
-  headerPadding: 0.4, 
-  borderWidth: 0.1, 
-  lineHeight: 1.0 
-};
+const fontStyleName = (isBold: boolean, isItalic: boolean) =>
+  isItalic ? (isBold ? 'bolditalic' : 'italic') : (isBold ? 'bold' : 'normal');
 
-async function arrayBufferToBase64(buffer: ArrayBuffer): Promise<string> {
-  return new Promise((resolve) => {
-    const blob = new Blob([buffer], { type: 'application/octet-stream' });
-    const reader = new FileReader();
-    reader.onload = (e) => {
-      const dataUrl = e.target?.result as string;
-      if (dataUrl && dataUrl.includes(',')) {
-        resolve(dataUrl.split(',')[1]);
-      } else {
-        resolve('');
-      }
-    };
-    reader.readAsDataURL(blob);
+const createDocument = async (data: TableData) => {
+  const page = getPageGeometry(data);
+  const doc = new jsPDF({
+    orientation: page.width > page.height ? 'landscape' : 'portrait',
+    unit: 'mm',
+    format: [page.width, page.height],
+    putOnlyUsedFonts: true,
+    floatPrecision: 16
   });
-}
-
-async function fetchWithFallback(urls: string[]): Promise<string> {
-  let lastError: any = null;
-  for (const url of urls) {
-    try {
-      const response = await fetch(url, { mode: 'cors', cache: 'default' });
-      if (!response.ok) throw new Error(`HTTP ${response.status}`);
-      const buffer = await response.arrayBuffer();
-      return await arrayBufferToBase64(buffer);
-    } catch (e) {
-      lastError = e;
-    }
-  }
-  throw new Error(`Failed to load font. ${lastError?.message}`);
-}
+  const fontName = await registerPdfFonts(doc, data.fonts, data.fontFamily);
+  doc.setFont(fontName, 'normal');
+  return { doc, fontName };
+};
+
+/** Text measurer with the project's PDF fonts, for laying out the editor exactly as it will print. */
+export const createPdfMeasurer = async (data: TableData): Promise<TextMeasurer> => {
+  const { doc, fontName } = await createDocument(data);
+  return createJsPdfMeasurer(doc, fontName);
+};
 
 export const exportToPDF = async (data: TableData) => {
   try {
-    const [regBase64, boldBase64] = await Promise.all([
-      fetchWithFallback(FONT_SOURCES.regular),
-      fetchWithFallback(FONT_SOURCES.bold)
-    ]);
-
-    const doc = new jsPDF({
-      orientation: 'landscape',
-      unit: 'mm',
-      format: 'a3',
-      putOnlyUsedFonts: true,
-      floatPrecision: 16
-    });
-
-    const fontName = 'RobotoCondensed';
-    doc.addFileToVFS('RobotoCondensed-Regular.ttf', regBase64);
-    doc.addFileToVFS('RobotoCondensed-Bold.ttf', boldBase64);
-    doc.addFont('RobotoCondensed-Regular.ttf', fontName, 'normal');
-    doc.addFont('RobotoCondensed-Bold.ttf', fontName, 'bold');
-    doc.setFont(fontName, 'normal');
-
-    const margin = MARGIN_MM;
-    const contentWidth = A3_WIDTH_MM - (margin * 2);
-    const colWidthsMm = data.columns.map(col => (col.width / 100) * contentWidth);
+    const { doc, fontName } = await createDocument(data);
+    const layout = computeTableLayout(data, createJsPdfMeasurer(doc, fontName));
+    const { margins } = layout.page;
+    const marginX = margins.left;
+    const contentWidth = layout.contentWidth;
 
     const hexToRgb = (hex: string) => {
       const bigint = parseInt(hex.replace('#', ''), 16);
@@ -96,160 +56,189 @@ export const exportToPDF = async (data: TableData) => {
     const totalBg = hexToRgb(COLORS.totalBg);
     const rowOddBg = hexToRgb(COLORS.rowOdd);
 
-    let currentY = margin;
-
-    const mmToPt = (mm: number) => mm * (72 / 25.4);
-
-    const renderCellText = (
-      x: number, 
-      y: number, 
-      w: number, 
-      h: number, 
-      text: string, 
-      fontSizeMm: number, 
-      align: 'left' | 'center', 
-      isBold: boolean, 
-      colorRgb: number[] = [0, 0, 0]
-    ) => {
-      doc.setFont(fontName, isBold ? 'bold' : 'normal');
-      doc.setFontSize(mmToPt(fontSizeMm));
+    let currentY = margins.top;
+
+    // Строки уже разбиты движком раскладки; блок центрируется по вертикали, как в редакторе
+    const renderText = (x: number, y: number, w: number, h: number, text: TextLayout, padX: number, align: string, colorRgb: number[]) => {
+      if (text.lines.length === 0) return;
+      doc.setFont(fontName, fontStyleName(text.font.bold, text.font.italic));
+      doc.setFontSize(mmToPt(text.font.size));
       doc.setTextColor(colorRgb[0], colorRgb[1], colorRgb[2]);
-      
-      const padding = align === 'left' ? UI_UNITS.cellPadding : 0.2;
-      const formatted = formatRussianText(text || '');
-      
-      const lines = doc.splitTextToSize(formatted, w - (padding * 2));
-      const lineH = fontSizeMm * UI_UNITS.lineHeight;
-      const totalTextH = lines.length * lineH;
-      
-      // Вертикальное центрирование
-      let startY = y + (h - totalTextH) / 2 + (fontSizeMm * 0.78);
-
-      lines.forEach((line: string, i: number) => {
+      const top = y + (h - textBlockHeight(text)) / 2;
+      text.lines.forEach((line, i) => {
         const tw = doc.getTextWidth(line);
-        const tx = align === 'center' ? x + (w / 2) - (tw / 2) : x + padding;
-        doc.text(line, tx, startY + (i * lineH));
+        const tx = align === 'center' ? x + (w - tw) / 2 : (align === 'right' ? x + w - padX - tw : x + padX);
+        doc.text(line, tx, top + i * text.lineHeight + text.font.size * LAYOUT_UNITS.baseline);
       });
     };
 
-    const drawHeader = () => {
-      doc.setDrawColor(borderColor[0], borderColor[1], borderColor[2]);
-      doc.setLineWidth(UI_UNITS.borderWidth);
-      
-      const h1 = 8.0; 
-      const h2 = 6.0;
-      const totalH = h1 + h2;
-      const white = [255, 255, 255];
+    const docBlocks = layout.document;
+    const exportDate = new Date();
+    const black = [0, 0, 0];
+    const footerColor = hexToRgb(COLORS.footerText);
 
-      doc.setFillColor(headerBg[0], headerBg[1], headerBg[2]);
-      doc.rect(margin, currentY, contentWidth, totalH, 'F');
+    const singleLine = (text: string, size: number, bold = false): TextLayout => ({
+      lines: [text],
+      font: { size, bold, italic: false } as FontSpec,
+      lineHeight: size * LAYOUT_UNITS.lineHeight
+    });
 
-      let curX = margin;
-      for (let i = 0; i < 8; i++) {
-        doc.rect(curX, currentY, colWidthsMm[i], totalH, 'D');
-        renderCellText(curX, currentY, colWidthsMm[i], totalH, data.columns[i].title, UI_UNITS.headerFontSize, 'center', true, white);
-        curX += colWidthsMm[i];
-      }
+    const drawTitle = () => {
+      let y = currentY;
+      [docBlocks.title, docBlocks.subtitle].forEach((text, i) => {
+        if (text.lines.length === 0) return;
+        if (i === 1 && docBlocks.title.lines.length) y += DOCUMENT_UNITS.subtitleGap;
+        renderText(marginX, y, contentWidth, textBlockHeight(text), text, 0, 'center', black);
+        y += textBlockHeight(text);
+      });
+      currentY += docBlocks.titleHeight;
+    };
 
-      const groupedW = colWidthsMm[8] + colWidthsMm[9];
-      doc.rect(curX, currentY, groupedW, h1, 'D');
-      renderCellText(curX, currentY, groupedW, h1, 'Мощность ОПН', UI_UNITS.headerFontSize, 'center', true, white);
-      
-      doc.rect(curX, currentY + h1, colWidthsMm[8], h2, 'D');
-      renderCellText(curX, currentY + h1, colWidthsMm[8], h2, data.columns[8].title, UI_UNITS.headerFontSize, 'center', true, white);
-      
-      doc.rect(curX + colWidthsMm[8], currentY + h1, colWidthsMm[9], h2, 'D');
-      renderCellText(curX + colWidthsMm[8], currentY + h1, colWidthsMm[9], h2, data.columns[9].title, UI_UNITS.headerFontSize, 'center', true, white);
-      
-      curX += groupedW;
-      for (let i = 10; i < 13; i++) {
-        doc.rect(curX, currentY, colWidthsMm[i], totalH, 'D');
-        renderCellText(curX, currentY, colWidthsMm[i], totalH, data.columns[i].title, UI_UNITS.headerFontSize, 'center', true, white);
-        curX += colWidthsMm[i];
+    // Колонтитулы ставятся после отрисовки, когда известно итоговое число листов
+    const drawPageDecorations = () => {
+      const pageCount = doc.getNumberOfPages();
+      const footerLine = DOCUMENT_UNITS.footerFontSize * LAYOUT_UNITS.lineHeight;
+      for (let i = 1; i <= pageCount; i++) {
+        doc.setPage(i);
+        const values = getTemplateValues(docBlocks.settings, exportDate, i, pageCount);
+        const caption = fillTemplate(docBlocks.settings.headerTemplate, values);
+        if (caption) {
+          const text = singleLine(caption, DOCUMENT_UNITS.captionFontSize);
+          renderText(marginX, margins.top, contentWidth, text.lineHeight, text, 0, 'right', black);
+        }
+        if (docBlocks.footerHeight > 0) {
+          const y = layout.page.height - margins.bottom - footerLine;
+          ([
+            [docBlocks.settings.footerLeft, 'left'],
+            [docBlocks.settings.footerCenter, 'center'],
+            [docBlocks.settings.footerRight, 'right']
+          ] as const).forEach(([template, align]) => {
+            const value = fillTemplate(template, values);
+            if (value) renderText(marginX, y, contentWidth, footerLine, singleLine(value, DOCUMENT_UNITS.footerFontSize), 0, align, footerColor);
+          });
+        }
       }
-      currentY += totalH;
     };
 
-    const calculateRowHeight = (row: TableRow, bIdx: number) => {
-      let maxH = 6.0; 
-      row.cells.forEach((cell, i) => {
-        const isNumeric = i >= 7;
-        const fs = cell.style?.fontSize || (isNumeric ? UI_UNITS.numericFontSize : UI_UNITS.standardFontSize);
-        
-        // 1. Ensure circle fits without clipping
-        if (i === 0 && !row.isTotal) {
-          const circleSizeMm = cell.style?.circleSize || (fs * 1.6);
-          // High buffer padding for the circle (x2.5 padding)
-          const requiredCircleH = circleSizeMm + (UI_UNITS.cellPadding * 2.5);
-          if (requiredCircleH > maxH) maxH = requiredCircleH;
-        }
+    const drawHeader = () => {
+      doc.setDrawColor(borderColor[0], borderColor[1], borderColor[2]);
+      doc.setLineWidth(LAYOUT_UNITS.borderWidth);
+      const white = [255, 255, 255];
+
+      doc.setFillColor(headerBg[0], headerBg[1], headerBg[2]);
+      doc.rect(marginX, currentY, contentWidth, layout.headerHeight, 'F');
 
-        // 2. Ensure multi-line text fits
-        const val = (i === 0 && cell.value === 'AUTO') ? (bIdx + 1).toString() : cell.value;
-        const formatted = formatRussianText(val || '');
-        const lines = doc.splitTextToSize(formatted, colWidthsMm[i] - (UI_UNITS.cellPadding * 2));
-        const textH = lines.length * (fs * UI_UNITS.lineHeight) + (UI_UNITS.cellPadding * 3.0); // Increased padding
-        if (textH > maxH) maxH = textH;
+      layout.headerRows.flat().forEach(cell => {
+        const x = marginX + cell.x;
+        const y = currentY + cell.y;
+        doc.rect(x, y, cell.width, cell.height, 'D');
+        renderText(x, y, cell.width, cell.height, cell.text, LAYOUT_UNITS.headerPadding, 'center', white);
       });
-      return maxH;
+      currentY += layout.headerHeight;
     };
 
-    const drawRow = (row: TableRow, isTotal: boolean, bodyIdx: number) => {
-      const rowHeight = calculateRowHeight(row, bodyIdx);
-
-      if (currentY + rowHeight > A3_HEIGHT_MM - margin - 5) {
-        doc.addPage();
-        currentY = margin;
-        drawHeader();
-      }
-
-      if (isTotal) {
-        doc.setFillColor(totalBg[0], totalBg[1], totalBg[2]);
-        doc.rect(margin, currentY, contentWidth, rowHeight, 'F');
-      } else if (bodyIdx % 2 !== 0) {
-        doc.setFillColor(rowOddBg[0], rowOddBg[1], rowOddBg[2]);
-        doc.rect(margin, currentY, contentWidth, rowHeight, 'F');
-      }
+    const rowFill = (rIdx: number) =>
+      data.rows[rIdx].isTotal ? totalBg : layout.rows[rIdx].bodyIdx % 2 !== 0 ? rowOddBg : null;
+
+    const drawRows = (pageRows: number[]) => {
+      const rowY: number[] = [];
+      let y = currentY;
+      // Сначала фон всех строк листа: объединённая по вертикали ячейка перекрывает полосы под собой
+      pageRows.forEach(rIdx => {
+        rowY.push(y);
+        const fill = rowFill(rIdx);
+        if (fill) {
+          doc.setFillColor(fill[0], fill[1], fill[2]);
+          doc.rect(marginX, y, contentWidth, layout.rows[rIdx].height, 'F');
+        }
+        y += layout.rows[rIdx].height;
+      });
 
-      let curX = margin;
       doc.setDrawColor(borderColor[0], borderColor[1], borderColor[2]);
-      doc.setLineWidth(UI_UNITS.borderWidth);
-
-      row.cells.forEach((cell, i) => {
-        doc.rect(curX, currentY, colWidthsMm[i], rowHeight, 'D');
-        const isNumeric = i >= 7;
-        const fs = cell.style?.fontSize || (isNumeric ? UI_UNITS.numericFontSize : UI_UNITS.standardFontSize);
-        const circleSize = cell.style?.circleSize || (fs * 1.6);
-        const val = (i === 0 && cell.value === 'AUTO') ? (bodyIdx + 1).toString() : cell.value;
-        const isBold = isTotal || isNumeric || cell.style?.fontWeight === 700;
-        const textColor = isTotal ? [255, 255, 255] : [0, 0, 0];
-        
-        if (i === 0 && !isTotal) {
-          const hexColor = (cell.style?.circleColor || '#1c9ad6').toLowerCase();
-          const circleCol = hexToRgb(hexColor);
+      doc.setLineWidth(LAYOUT_UNITS.borderWidth);
+
+      getPageFragments(layout.merges, pageRows).forEach((fragments, i) => fragments.forEach(fragment => {
+        const anchorRow = data.rows[fragment.anchorRow];
+        const cellBox = layout.rows[fragment.anchorRow].cells[fragment.anchorCol];
+        const x = marginX + layout.colOffsets[fragment.col];
+        const top = rowY[i];
+        const { width: w, height: h } = getFragmentSize(layout, fragment);
+
+        if (fragment.rowSpan > 1) {
+          const fill = rowFill(fragment.anchorRow) || [255, 255, 255];
+          doc.setFillColor(fill[0], fill[1], fill[2]);
+          doc.rect(x, top, w, h, 'F');
+        }
+        doc.rect(x, top, w, h, 'D');
+
+        if (cellBox.circleSize !== null) {
+          const circleCol = hexToRgb((anchorRow.cells[fragment.anchorCol].style?.circleColor || '#1c9ad6').toLowerCase());
           doc.setFillColor(circleCol[0], circleCol[1], circleCol[2]);
-          const radius = circleSize / 2;
-          doc.circle(curX + colWidthsMm[i] / 2, currentY + rowHeight / 2, radius, 'F');
-          renderCellText(curX, currentY, colWidthsMm[i], rowHeight, val, fs, 'center', true, [255, 255, 255]);
+          doc.circle(x + w / 2, top + h / 2, cellBox.circleSize / 2, 'F');
+          renderText(x, top, w, h, cellBox.text, LAYOUT_UNITS.cellPaddingX, 'center', [255, 255, 255]);
         } else {
-          const align = i === 4 ? 'left' : 'center';
-          renderCellText(curX, currentY, colWidthsMm[i], rowHeight, val, fs, align, isBold, textColor);
+          const textColor = anchorRow.isTotal ? [255, 255, 255] : [0, 0, 0];
+          renderText(x, top, w, h, cellBox.text, LAYOUT_UNITS.cellPaddingX, cellBox.align, textColor);
         }
-        curX += colWidthsMm[i];
-      });
+      }));
 
-      currentY += rowHeight;
+      currentY = y;
     };
 
-    drawHeader();
-    let bIdx = 0;
-    data.rows.forEach(row => {
-      drawRow(row, !!row.isTotal, row.isTotal ? -1 : bIdx++);
+    // Место под легенду оставлено разбиением на листы: она всегда ложится на последний лист
+    const drawLegend = (legend: LegendLayout) => {
+      const isBoxed = legend.position !== 'below';
+      const pad = isBoxed ? LEGEND_UNITS.padding : 0;
+      let x = marginX;
+      let y: number;
+      if (isBoxed) {
+        y = layout.page.height - margins.bottom - docBlocks.footerHeight - legend.height;
+        if (legend.position === 'bottom-right') x = marginX + contentWidth - legend.width;
+        doc.setFillColor(255, 255, 255);
+        doc.setDrawColor(borderColor[0], borderColor[1], borderColor[2]);
+        doc.setLineWidth(LAYOUT_UNITS.borderWidth);
+        doc.rect(x, y, legend.width, legend.height, 'FD');
+      } else {
+        y = currentY + LEGEND_UNITS.offsetTop;
+      }
+
+      doc.setTextColor(0, 0, 0);
+      legend.lines.forEach((line, li) => {
+        let cx = x + pad;
+        const yMid = y + pad + li * (legend.lineHeight + LEGEND_UNITS.rowGap) + legend.lineHeight / 2;
+        line.forEach(chunk => {
+          if (chunk.color === null) {
+            doc.setFont(fontName, 'bold');
+            doc.setFontSize(mmToPt(LEGEND_UNITS.titleFontSize));
+            doc.text(chunk.label, cx, yMid + LEGEND_UNITS.titleFontSize * 0.35);
+          } else {
+            const rgb = hexToRgb(chunk.color);
+            doc.setFillColor(rgb[0], rgb[1], rgb[2]);
+            doc.circle(cx + LEGEND_UNITS.circleSize / 2, yMid, LEGEND_UNITS.circleSize / 2, 'F');
+            doc.setFont(fontName, 'normal');
+            doc.setFontSize(mmToPt(LEGEND_UNITS.fontSize));
+            doc.text(chunk.label, cx + LEGEND_UNITS.circleSize + LEGEND_UNITS.circleGap, yMid + LEGEND_UNITS.fontSize * 0.35);
+          }
+          cx += chunk.width + LEGEND_UNITS.itemGap;
+        });
+      });
+    };
+
+    // Разбиение на листы общее с предпросмотром в редакторе
+    layout.pages.forEach((pageRows, pageIdx) => {
+      if (pageIdx > 0) doc.addPage();
+      currentY = margins.top + docBlocks.captionHeight;
+      if (pageIdx === 0 || docBlocks.settings.repeatTitle) drawTitle();
+      drawHeader();
+      drawRows(pageRows);
     });
 
-    doc.save('ведомость_модернизации_А3.pdf');
+    if (layout.legend) drawLegend(layout.legend);
+    drawPageDecorations();
+
+    doc.save(buildFileName(data, 'pdf'));
   } catch (error) {
     console.error('PDF Export Error:', error);
     alert('Ошибка экспорта: ' + (error instanceof Error ? error.message : 'Неизвестная ошибка'));
   }
-};
+};
\ No newline at end of file
@@ -0,0 +1,266 @@
+import { TableData } from '../types';
+import { migrateLegacyColumnTypes } from './columnService';
+import { migrateLegacyGroupTitle } from './headerService';
+import { TYPOGRAPHY_RULES } from './formatService';
+
+/**
+ * Project file format. The saved JSON is the table data plus a `version` field;
+ * files without it are version 1. On load, older files are upgraded step by step,
+ * then the whole structure is checked so a damaged file is rejected with a list of
+ * the bad rows and cells instead of breaking the editor. Files from a newer version
+ * are refused: fields this build does not know could be lost on the next save.
+ */
+
+export const PROJECT_VERSION = 2;
+
+const MAX_REPORTED_ERRORS = 12;
+
+type RawProject = Record<string, unknown>;
+
+/** Step from version `n` to `n + 1`, keyed by `n`. */
+const MIGRATIONS: Record<number, (project: RawProject) => RawProject> = {
+  // 1 → 2: одна группа шапки над колонками 9–10 и колонки без типов
+  1: project => Array.isArray(project.columns)
+    ? migrateLegacyColumnTypes(migrateLegacyGroupTitle(project as unknown as TableData & { groupTitle?: string })) as unknown as RawProject
+    : project
+};
+
+const COLUMN_TYPES = ['index', 'text', 'number', 'boolean', 'period', 'unit'];
+const ALIGNS = ['left', 'center', 'right'];
+const PAGE_BREAKS = ['before', 'avoid'];
+const LEGEND_POSITIONS = ['below', 'bottom-left', 'bottom-right'];
+const PAGE_FORMATS = ['a4', 'a3', 'a2', 'custom'];
+const ORIENTATIONS = ['landscape', 'portrait'];
+const FONT_VARIANTS = ['normal', 'bold', 'italic', 'bolditalic'];
+const GROUPING_MODES = ['sort', 'cluster'];
+const FONT_STYLES = ['normal', 'italic'];
+const TYPOGRAPHY_RULE_IDS: string[] = TYPOGRAPHY_RULES.map(rule => rule.id);
+
+const isObject = (value: unknown): value is RawProject =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Значение для отчёта: короткие числа и строки как есть, остальное — по типу
+const describe = (value: unknown) => {
+  if (Array.isArray(value)) return 'массив';
+  if (value === null) return 'null';
+  if (typeof value === 'number' || (typeof value === 'string' && value.length <= 20)) return JSON.stringify(value);
+  return typeof value;
+};
+
+/** Collects readable problems of a project object; an empty list means the data is safe to render. */
+export const validateProject = (project: RawProject): string[] => {
+  const errors: string[] = [];
+  const fail = (path: string, message: string) => errors.push(`${path}: ${message}`);
+
+  // Проверки поля объекта; `optional` пропускает отсутствующее поле
+  const field = (obj: RawProject, key: string, path: string, check: (v: unknown) => boolean, expected: string, optional = false) => {
+    const value = obj[key];
+    if (value === undefined) {
+      if (!optional) fail(path, `нет поля «${key}»`);
+      return;
+    }
+    if (!check(value)) fail(path, `поле «${key}» должно быть ${expected}, а не ${describe(value)}`);
+  };
+  const str = (obj: RawProject, key: string, path: string, optional = false) =>
+    field(obj, key, path, v => typeof v === 'string', 'строкой', optional);
+  const num = (obj: RawProject, key: string, path: string, optional = false, min = -Infinity) =>
+    field(obj, key, path, v => typeof v === 'number' && Number.isFinite(v) && v >= min, min > -Infinity ? `числом не меньше ${min}` : 'числом', optional);
+  const bool = (obj: RawProject, key: string, path: string, optional = false) =>
+    field(obj, key, path, v => typeof v === 'boolean', 'true или false', optional);
+  const oneOf = (obj: RawProject, key: string, path: string, options: string[], optional = false) =>
+    field(obj, key, path, v => typeof v === 'string' && options.includes(v), `одним из: ${options.join(', ')}`, optional);
+  const list = (obj: RawProject, key: string, path: string, options?: string[]) =>
+    field(obj, key, path, v => Array.isArray(v) && v.every(item => typeof item === 'string' && (!options || options.includes(item))),
+      options ? 'списком допустимых значений' : 'списком строк', true);
+  const span = (obj: RawProject, key: string, path: string) =>
+    field(obj, key, path, v => Number.isInteger(v) && (v as number) >= 1, 'целым числом от 1', true);
+
+  if (!Array.isArray(project.columns) || project.columns.length === 0) {
+    fail('Таблица', 'нет списка колонок');
+    return errors;
+  }
+  if (!Array.isArray(project.rows)) {
+    fail('Таблица', 'нет списка строк');
+    return errors;
+  }
+
+  const columnIds = new Set<string>();
+  project.columns.forEach((column: unknown, i) => {
+    const path = `Колонка ${i + 1}`;
+    if (!isObject(column)) return fail(path, `ожидался объект, а не ${describe(column)}`);
+    str(column, 'id', path);
+    str(column, 'title', path);
+    num(column, 'width', path, false, 0);
+    oneOf(column, 'type', path, COLUMN_TYPES, true);
+    oneOf(column, 'align', path, ALIGNS, true);
+    num(column, 'fontSize', path, true, 0);
+    num(column, 'fontWeight', path, true);
+    str(column, 'placeholder', path, true);
+    bool(column, 'hyphenate', path, true);
+    list(column, 'typographyOff', path, TYPOGRAPHY_RULE_IDS);
+    if (isObject(column.rules)) {
+      const rulesPath = `${path}, проверка`;
+      bool(column.rules, 'required', rulesPath, true);
+      ['min', 'max', 'yearMin', 'yearMax'].forEach(key => num(column.rules as RawProject, key, rulesPath, true));
+      str(column.rules, 'pattern', rulesPath, true);
+      list(column.rules, 'allowed', rulesPath);
+    } else if (column.rules !== undefined) {
+      fail(path, 'поле «rules» должно быть объектом');
+    }
+    if (typeof column.id === 'string') {
+      if (columnIds.has(column.id)) fail(path, `id «${column.id}» уже занят другой колонкой`);
+      columnIds.add(column.id);
+    }
+  });
+
+  const columnCount = project.columns.length;
+  const rowIds = new Set<string>();
+  project.rows.forEach((row: unknown, r) => {
+    const path = `Строка ${r + 1}`;
+    if (!isObject(row)) return fail(path, `ожидался объект, а не ${describe(row)}`);
+    str(row, 'id', path);
+    bool(row, 'isHeader', path, true);
+    bool(row, 'isTotal', path, true);
+    bool(row, 'autoSum', path, true);
+    bool(row, 'subtotal', path, true);
+    oneOf(row, 'pageBreak', path, PAGE_BREAKS, true);
+    if (typeof row.id === 'string') {
+      if (rowIds.has(row.id)) fail(path, `id «${row.id}» уже занят другой строкой`);
+      rowIds.add(row.id);
+    }
+    if (!Array.isArray(row.cells)) return fail(path, 'нет списка ячеек');
+    if (row.cells.length !== columnCount) fail(path, `${row.cells.length} яч. при ${columnCount} колонках`);
+    row.cells.forEach((cell: unknown, c) => {
+      const cellPath = `Строка ${r + 1}, ячейка ${c + 1}`;
+      if (!isObject(cell)) return fail(cellPath, `ожидался объект, а не ${describe(cell)}`);
+      str(cell, 'id', cellPath);
+      str(cell, 'value', cellPath);
+      bool(cell, 'manual', cellPath, true);
+      bool(cell, 'plain', cellPath, true);
+      span(cell, 'rowSpan', cellPath);
+      span(cell, 'colSpan', cellPath);
+      if (cell.style === undefined) return;
+      if (!isObject(cell.style)) return fail(cellPath, 'поле «style» должно быть объектом');
+      num(cell.style, 'fontSize', `${cellPath}, стиль`, true, 0);
+      field(cell.style, 'fontWeight', `${cellPath}, стиль`, v => typeof v === 'string' || typeof v === 'number', 'числом или строкой', true);
+      str(cell.style, 'circleColor', `${cellPath}, стиль`, true);
+      num(cell.style, 'circleSize', `${cellPath}, стиль`, true, 0);
+      oneOf(cell.style, 'fontStyle', `${cellPath}, стиль`, FONT_STYLES, true);
+    });
+  });
+
+  if (project.headerGroups !== undefined) {
+    if (!Array.isArray(project.headerGroups)) fail('Группы шапки', 'ожидался массив');
+    else project.headerGroups.forEach((group: unknown, i) => {
+      const path = `Группа шапки ${i + 1}`;
+      if (!isObject(group)) return fail(path, `ожидался объект, а не ${describe(group)}`);
+      str(group, 'id', path);
+      str(group, 'title', path);
+      str(group, 'startColId', path);
+      str(group, 'endColId', path);
+      [group.startColId, group.endColId].forEach(id => {
+        if (typeof id === 'string' && !columnIds.has(id)) fail(path, `ссылается на несуществующую колонку «${id}»`);
+      });
+    });
+  }
+
+  if (project.legend !== undefined) {
+    if (!isObject(project.legend)) fail('Легенда', 'ожидался объект');
+    else {
+      bool(project.legend, 'enabled', 'Легенда');
+      oneOf(project.legend, 'position', 'Легенда', LEGEND_POSITIONS);
+      str(project.legend, 'title', 'Легенда');
+    }
+  }
+
+  if (project.fonts !== undefined) {
+    if (!Array.isArray(project.fonts)) fail('Шрифты', 'ожидался массив');
+    else project.fonts.forEach((font: unknown, i) => {
+      const path = `Шрифт ${i + 1}`;
+      if (!isObject(font)) return fail(path, `ожидался объект, а не ${describe(font)}`);
+      ['id', 'family', 'fileName', 'data'].forEach(key => str(font, key, path));
+      oneOf(font, 'variant', path, FONT_VARIANTS);
+    });
+  }
+  if (project.fontFamily !== undefined) str(project, 'fontFamily', 'Таблица');
+
+  if (project.page !== undefined) {
+    const page = project.page;
+    if (!isObject(page)) fail('Страница', 'ожидался объект');
+    else {
+      // Недостающие параметры страницы и документа берутся по умолчанию
+      oneOf(page, 'format', 'Страница', PAGE_FORMATS, true);
+      oneOf(page, 'orientation', 'Страница', ORIENTATIONS, true);
+      num(page, 'width', 'Страница', true, 1);
+      num(page, 'height', 'Страница', true, 1);
+      const margins = page.margins;
+      if (isObject(margins)) ['top', 'right', 'bottom', 'left'].forEach(key => num(margins, key, 'Поля страницы', true, 0));
+      else if (margins !== undefined) fail('Страница', 'поле «margins» должно быть объектом');
+    }
+  }
+
+  if (project.document !== undefined) {
+    if (!isObject(project.document)) fail('Документ', 'ожидался объект');
+    else {
+      ['title', 'subtitle', 'appendix', 'organization', 'headerTemplate', 'footerLeft', 'footerCenter', 'footerRight']
+        .forEach(key => str(project.document as RawProject, key, 'Документ', true));
+      bool(project.document, 'repeatTitle', 'Документ', true);
+    }
+  }
+
+  if (project.grouping !== undefined) {
+    if (!isObject(project.grouping)) fail('Итоги по группам', 'ожидался объект');
+    else {
+      str(project.grouping, 'columnId', 'Итоги по группам');
+      oneOf(project.grouping, 'mode', 'Итоги по группам', GROUPING_MODES);
+      bool(project.grouping, 'restartNumbering', 'Итоги по группам');
+      const id = project.grouping.columnId;
+      if (typeof id === 'string' && !columnIds.has(id)) fail('Итоги по группам', `ссылается на несуществующую колонку «${id}»`);
+    }
+  }
+
+  if (project.typography !== undefined) {
+    if (!isObject(project.typography)) fail('Типографика', 'ожидался объект');
+    else {
+      list(project.typography, 'disabled', 'Типографика', TYPOGRAPHY_RULE_IDS);
+      ['prepositions', 'leadAbbreviations', 'trailAbbreviations'].forEach(key => list(project.typography as RawProject, key, 'Типографика'));
+    }
+  }
+
+  return errors;
+};
+
+const formatReport = (errors: string[]) => {
+  const shown = errors.slice(0, MAX_REPORTED_ERRORS).map(e => `• ${e}`);
+  if (errors.length > MAX_REPORTED_ERRORS) shown.push(`…и ещё ${errors.length - MAX_REPORTED_ERRORS}`);
+  return shown.join('\n');
+};
+
+export const serializeProject = (data: TableData) => JSON.stringify({ version: PROJECT_VERSION, ...data }, null, 2);
+
+/**
+ * Reads a project file: upgrades it to the current version and validates it.
+ * Throws an Error whose message is ready to show to the user.
+ */
+export const parseProject = (json: string): TableData => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(json);
+  } catch {
+    throw new Error('Файл проекта не является JSON');
+  }
+  if (!isObject(raw)) throw new Error('Неверный формат файла проекта');
+
+  const { version = 1, ...rest } = raw;
+  if (!Number.isInteger(version) || (version as number) < 1) throw new Error(`Неизвестная версия файла проекта: ${String(version)}`);
+  if ((version as number) > PROJECT_VERSION) {
+    throw new Error(`Проект сохранён в более новой версии программы (формат ${version}, поддерживается до ${PROJECT_VERSION}). Обновите программу, чтобы открыть его.`);
+  }
+
+  let project: RawProject = rest;
+  for (let v = version as number; v < PROJECT_VERSION; v++) project = MIGRATIONS[v](project);
+
+  const errors = validateProject(project);
+  if (errors.length > 0) throw new Error(`Файл проекта повреждён:\n${formatReport(errors)}`);
+  return project as unknown as TableData;
+};
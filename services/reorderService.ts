@@ -0,0 +1,49 @@
+import { TableData } from '../types';
+import { getMergeAreas, releaseMerges, MergeArea } from './mergeService';
+import { moveColumnInGroups } from './headerService';
+
+/**
+ * Drag-and-drop reordering of rows and columns. `before` is the drop position in the
+ * current order: the item is placed before the row (column) with that index, or at
+ * the end when it equals the count. Merges that the move would tear apart are released;
+ * row numbers follow automatically, since AUTO numbers are counted by position.
+ */
+
+const moveItem = <T,>(items: T[], from: number, before: number): T[] => {
+  const next = [...items];
+  const [item] = next.splice(from, 1);
+  next.splice(before > from ? before - 1 : before, 0, item);
+  return next;
+};
+
+/** Merges spanning the moved line or the gap the line is dropped into. */
+const tornAreas = (areas: MergeArea[], from: number, before: number, start: (a: MergeArea) => number, span: (a: MergeArea) => number) =>
+  areas.filter(area => {
+    const first = start(area);
+    const last = first + span(area) - 1;
+    if (span(area) === 1) return false;
+    return (from >= first && from <= last) || (before > first && before <= last);
+  });
+
+const isNoopMove = (from: number, before: number) => before === from || before === from + 1;
+
+export const moveRow = (data: TableData, from: number, before: number): TableData => {
+  if (isNoopMove(from, before)) return data;
+  const areas = tornAreas(getMergeAreas(data.rows), from, before, a => a.row, a => a.rowSpan);
+  const rows = releaseMerges(data.rows, data.columns, areas);
+  return { ...data, rows: moveItem(rows, from, before) };
+};
+
+/** Moves the column with its cells, width and header group membership. */
+export const moveColumn = (data: TableData, from: number, before: number): TableData => {
+  if (isNoopMove(from, before)) return data;
+  const areas = tornAreas(getMergeAreas(data.rows), from, before, a => a.col, a => a.colSpan);
+  const released = releaseMerges(data.rows, data.columns, areas);
+  const headerGroups = moveColumnInGroups(data.headerGroups || [], data.columns, from);
+  return {
+    ...data,
+    columns: moveItem(data.columns, from, before),
+    rows: released.map(row => ({ ...row, cells: moveItem(row.cells, from, before) })),
+    headerGroups
+  };
+};
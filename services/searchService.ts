@@ -0,0 +1,144 @@
+import { TableData } from '../types';
+import { getColumnMeta, normalizeCellValue } from './columnService';
+
+/**
+ * Find and replace over cell values and column titles. Values are matched with
+ * non-breaking spaces read as ordinary ones (formatRussianText puts them after
+ * short words), while replacements keep the rest of the value intact.
+ */
+
+export type SearchScope = 'all' | 'column' | 'selection';
+
+export interface SearchOptions {
+  query: string;
+  replacement: string;
+  matchCase: boolean;
+  wholeWord: boolean;
+  regex: boolean;
+  scope: SearchScope;
+  columnId: string | null;   // для области 'column'
+}
+
+export interface SearchMatch {
+  rowIdx: number;   // -1 — заголовок колонки
+  colIdx: number;
+  start: number;
+  end: number;
+  groups: string[];
+}
+
+export const DEFAULT_SEARCH: SearchOptions = {
+  query: '',
+  replacement: '',
+  matchCase: false,
+  wholeWord: false,
+  regex: false,
+  scope: 'all',
+  columnId: null
+};
+
+// Одинаковая длина строк сохраняет позиции совпадений в исходном значении
+const normalizeSpaces = (text: string) => text.replace(/[\u00A0\u202F]/g, ' ');
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/** Compiled search pattern, or null for an empty query or an invalid regular expression. */
+export const buildSearchPattern = (options: SearchOptions): RegExp | null => {
+  const query = normalizeSpaces(options.query);
+  if (!query) return null;
+  let source = options.regex ? query : escapeRegExp(query);
+  if (options.wholeWord) source = `(?<![\\p{L}\\p{N}_])(?:${source})(?![\\p{L}\\p{N}_])`;
+  try {
+    return new RegExp(source, options.matchCase ? 'gu' : 'giu');
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Cells and titles the search looks at; the № column holds AUTO markers, not text.
+ * `selectedCells` holds "row:col" keys of the selection (row -1 for a column title).
+ */
+const createScope = (data: TableData, options: SearchOptions, selectedCells: Set<string>) => {
+  const searchable = (colIdx: number) => getColumnMeta(data.columns[colIdx]).type !== 'index';
+  if (options.scope === 'column') {
+    const colIdx = data.columns.findIndex(c => c.id === options.columnId);
+    return (rowIdx: number, c: number) => c === colIdx && (rowIdx === -1 || searchable(c));
+  }
+  if (options.scope === 'selection') {
+    return (rowIdx: number, c: number) => selectedCells.has(`${rowIdx}:${c}`) && (rowIdx === -1 || searchable(c));
+  }
+  return (rowIdx: number, c: number) => rowIdx === -1 || searchable(c);
+};
+
+const matchText = (text: string, pattern: RegExp, rowIdx: number, colIdx: number): SearchMatch[] => {
+  const matches: SearchMatch[] = [];
+  for (const m of normalizeSpaces(text).matchAll(pattern)) {
+    if (m[0].length === 0) continue;
+    matches.push({ rowIdx, colIdx, start: m.index!, end: m.index! + m[0].length, groups: m.slice(1).map(g => g ?? '') });
+  }
+  return matches;
+};
+
+/** Matches in reading order: column titles first, then the body row by row. */
+export const findMatches = (data: TableData, options: SearchOptions, selectedCells: Set<string>): SearchMatch[] => {
+  const pattern = buildSearchPattern(options);
+  if (!pattern) return [];
+  const inScope = createScope(data, options, selectedCells);
+  const matches: SearchMatch[] = [];
+  data.columns.forEach((column, c) => {
+    if (inScope(-1, c)) matches.push(...matchText(column.title, pattern, -1, c));
+  });
+  data.rows.forEach((row, r) => row.cells.forEach((cell, c) => {
+    if (inScope(r, c)) matches.push(...matchText(cell.value, pattern, r, c));
+  }));
+  return matches;
+};
+
+/** Puts matches in screen order for a sorted view: headers first, then rows as displayed; rows hidden by a filter go last. */
+export const orderMatches = (matches: SearchMatch[], rowOrder: number[] | null): SearchMatch[] => {
+  if (!rowOrder) return matches;
+  const position = new Map(rowOrder.map((r, i) => [r, i]));
+  const rank = (m: SearchMatch) => m.rowIdx < 0 ? -1 : (position.get(m.rowIdx) ?? rowOrder.length + m.rowIdx);
+  // Сортировка устойчива: внутри ячейки совпадения остаются по порядку в тексте
+  return [...matches].sort((a, b) => rank(a) - rank(b) || a.colIdx - b.colIdx);
+};
+
+// $1…$99 и $& раскрываются только в режиме регулярных выражений
+const expandReplacement = (replacement: string, match: string, groups: string[], regex: boolean) => regex
+  ? replacement.replace(/\$(\d{1,2}|&)/g, (token, ref) => ref === '&' ? match : (groups[Number(ref) - 1] ?? token))
+  : replacement;
+
+/** Applies the given matches (all from the same text) right to left, so earlier offsets stay valid. */
+const replaceInText = (text: string, matches: SearchMatch[], options: SearchOptions) =>
+  [...matches].sort((a, b) => b.start - a.start).reduce((acc, m) =>
+    acc.slice(0, m.start) + expandReplacement(options.replacement, text.slice(m.start, m.end), m.groups, options.regex) + acc.slice(m.end), text);
+
+/** Replaces the given matches; cell values are normalised for their column like typed input. */
+export const replaceMatches = (data: TableData, matches: SearchMatch[], options: SearchOptions): TableData => {
+  if (matches.length === 0) return data;
+  const byTarget = new Map<string, SearchMatch[]>();
+  matches.forEach(m => {
+    const key = `${m.rowIdx}:${m.colIdx}`;
+    byTarget.set(key, [...(byTarget.get(key) || []), m]);
+  });
+  const targetMatches = (rowIdx: number, colIdx: number) => byTarget.get(`${rowIdx}:${colIdx}`);
+
+  const columns = data.columns.map((column, c) => {
+    const found = targetMatches(-1, c);
+    return found ? { ...column, title: replaceInText(column.title, found, options) } : column;
+  });
+  const rows = data.rows.map((row, r) => {
+    if (!row.cells.some((_, c) => targetMatches(r, c))) return row;
+    return {
+      ...row,
+      cells: row.cells.map((cell, c) => {
+        const found = targetMatches(r, c);
+        if (!found) return cell;
+        const value = normalizeCellValue(data.columns[c], replaceInText(cell.value, found, options), !!row.isTotal);
+        return { ...cell, value };
+      })
+    };
+  });
+  return { ...data, columns, rows };
+};
@@ -0,0 +1,117 @@
+import { Selection } from '../types';
+import { MergeGrid, getAnchor, isCovered } from './mergeService';
+
+/**
+ * Cell ranges and keyboard movement in the table body. A selection is the active
+ * cell plus an optional second corner; merged cells pull the range edges out to
+ * their whole area, as in Excel. All indices are rows as shown in the editor.
+ */
+
+export interface CellRange {
+  top: number;
+  left: number;
+  bottom: number;
+  right: number;
+}
+
+export const isInRange = (range: CellRange | null, row: number, col: number) =>
+  !!range && row >= range.top && row <= range.bottom && col >= range.left && col <= range.right;
+
+const sameRange = (a: CellRange | null, b: CellRange | null) =>
+  !!a && !!b && a.top === b.top && a.left === b.left && a.bottom === b.bottom && a.right === b.right;
+
+const expandToMerges = (grid: MergeGrid, range: CellRange): CellRange => {
+  let result = range;
+  let changed = true;
+  while (changed) {
+    changed = false;
+    for (let r = result.top; r <= result.bottom && !changed; r++) {
+      for (let c = result.left; c <= result.right && !changed; c++) {
+        const area = grid[r]?.[c];
+        if (!area) continue;
+        const grown = {
+          top: Math.min(result.top, area.row),
+          left: Math.min(result.left, area.col),
+          bottom: Math.max(result.bottom, area.row + area.rowSpan - 1),
+          right: Math.max(result.right, area.col + area.colSpan - 1)
+        };
+        if (!sameRange(grown, result)) {
+          result = grown;
+          changed = true;
+        }
+      }
+    }
+  }
+  return result;
+};
+
+/** Body cells covered by the selection; null for header selections. */
+export const getSelectionRange = (grid: MergeGrid, selection: Selection): CellRange | null => {
+  if (!selection || selection.rowIdx < 0) return null;
+  const endRow = selection.endRowIdx ?? selection.rowIdx;
+  const endCol = selection.endColIdx ?? selection.colIdx;
+  return expandToMerges(grid, {
+    top: Math.min(selection.rowIdx, endRow),
+    left: Math.min(selection.colIdx, endCol),
+    bottom: Math.max(selection.rowIdx, endRow),
+    right: Math.max(selection.colIdx, endCol)
+  });
+};
+
+/** Cells of the range in reading order; a merge is listed once, by its anchor. */
+export const getRangeCells = (grid: MergeGrid, range: CellRange | null): [number, number][] => {
+  if (!range) return [];
+  const cells: [number, number][] = [];
+  for (let r = range.top; r <= range.bottom; r++) {
+    for (let c = range.left; c <= range.right; c++) {
+      if (!isCovered(grid, r, c)) cells.push([r, c]);
+    }
+  }
+  return cells;
+};
+
+/** Cell one step away from (row, col); a merged cell is stepped over as a whole. Stays put at the table edge. */
+export const stepCell = (grid: MergeGrid, row: number, col: number, dRow: number, dCol: number): [number, number] => {
+  const area = grid[row]?.[col];
+  const top = area ? area.row : row;
+  const left = area ? area.col : col;
+  let r = row;
+  let c = col;
+  if (dRow > 0) r = top + (area ? area.rowSpan : 1);
+  if (dRow < 0) r = top - 1;
+  if (dCol > 0) c = left + (area ? area.colSpan : 1);
+  if (dCol < 0) c = left - 1;
+  if (r < 0 || r >= grid.length || c < 0 || c >= (grid[r]?.length || 0)) return [row, col];
+  return getAnchor(grid, r, c);
+};
+
+/** Moves the second corner of the range; steps that stay inside the same merged area are skipped. */
+export const extendSelection = (grid: MergeGrid, selection: Selection, dRow: number, dCol: number): Selection => {
+  if (!selection || selection.rowIdx < 0) return selection;
+  const before = getSelectionRange(grid, selection);
+  let endRowIdx = selection.endRowIdx ?? selection.rowIdx;
+  let endColIdx = selection.endColIdx ?? selection.colIdx;
+  while (true) {
+    const r = endRowIdx + dRow;
+    const c = endColIdx + dCol;
+    if (r < 0 || r >= grid.length || c < 0 || c >= (grid[r]?.length || 0)) return selection;
+    endRowIdx = r;
+    endColIdx = c;
+    const next = { ...selection, endRowIdx, endColIdx };
+    if (!sameRange(getSelectionRange(grid, next), before)) return next;
+  }
+};
+
+/** Whole rows of the current range (Shift+Space). */
+export const selectRows = (grid: MergeGrid, selection: Selection): Selection => {
+  const range = getSelectionRange(grid, selection);
+  if (!range) return selection;
+  return { rowIdx: range.top, colIdx: 0, endRowIdx: range.bottom, endColIdx: (grid[range.top]?.length || 1) - 1 };
+};
+
+/** Whole columns of the current range (Ctrl+Space). */
+export const selectColumns = (grid: MergeGrid, selection: Selection): Selection => {
+  const range = getSelectionRange(grid, selection);
+  if (!range) return selection;
+  return { rowIdx: 0, colIdx: range.left, endRowIdx: grid.length - 1, endColIdx: range.right };
+};
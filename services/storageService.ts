@@ -0,0 +1,150 @@
+import { TableData } from '../types';
+import { serializeProject, parseProject } from './projectService';
+
+/**
+ * Local project library and autosave in IndexedDB. Projects are stored in the
+ * project file format, so opening one goes through the same migration and
+ * validation as loading a file. The session slot holds the latest state of the
+ * work in progress and is offered for recovery after a reload or a crash.
+ */
+
+const DB_NAME = 'tablitsa';
+const DB_VERSION = 1;
+const PROJECTS = 'projects';
+const SESSION = 'session';
+const SESSION_KEY = 'current';
+
+export interface LibraryEntry {
+  id: string;
+  name: string;
+  updatedAt: number;
+}
+
+interface StoredProject extends LibraryEntry {
+  json: string;
+}
+
+/** Project the editor works on; `id` is null until it is saved to the library. */
+export interface ProjectRef {
+  id: string | null;
+  name: string;
+}
+
+export interface SessionSnapshot {
+  project: ProjectRef;
+  updatedAt: number;
+  data: TableData;
+}
+
+interface StoredSession {
+  key: string;
+  project: ProjectRef;
+  updatedAt: number;
+  json: string;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = () => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(PROJECTS, { keyPath: 'id' });
+        request.result.createObjectStore(SESSION, { keyPath: 'key' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Неудачное открытие можно повторить при следующем обращении
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+/** Runs `work` in one transaction and resolves with its result once the transaction commits. */
+const transact = async <T,>(stores: string[], mode: IDBTransactionMode, work: (tx: IDBTransaction) => IDBRequest<T> | void): Promise<T> => {
+  const db = await openDb();
+  return new Promise<T>((resolve, reject) => {
+    const tx = db.transaction(stores, mode);
+    const request = work(tx);
+    tx.oncomplete = () => resolve(request ? request.result : (undefined as T));
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+const getProject = (id: string) =>
+  transact<StoredProject | undefined>([PROJECTS], 'readonly', tx => tx.objectStore(PROJECTS).get(id));
+
+const newId = () => `p${Date.now()}${Math.random().toString(36).slice(2, 6)}`;
+
+export const listProjects = async (): Promise<LibraryEntry[]> => {
+  const projects = await transact<StoredProject[]>([PROJECTS], 'readonly', tx => tx.objectStore(PROJECTS).getAll());
+  return projects
+    .map(({ id, name, updatedAt }) => ({ id, name, updatedAt }))
+    .sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const openLibraryProject = async (id: string): Promise<{ entry: LibraryEntry; data: TableData }> => {
+  const stored = await getProject(id);
+  if (!stored) throw new Error('Проект не найден в библиотеке');
+  return { entry: { id: stored.id, name: stored.name, updatedAt: stored.updatedAt }, data: parseProject(stored.json) };
+};
+
+/** Saves the data under the project's id, or as a new library entry when it has none. */
+export const saveLibraryProject = async (project: ProjectRef, data: TableData): Promise<LibraryEntry> => {
+  const entry: LibraryEntry = { id: project.id || newId(), name: project.name, updatedAt: Date.now() };
+  await transact([PROJECTS], 'readwrite', tx => { tx.objectStore(PROJECTS).put({ ...entry, json: serializeProject(data) }); });
+  return entry;
+};
+
+export const renameLibraryProject = async (id: string, name: string) => {
+  const stored = await getProject(id);
+  if (!stored) return;
+  await transact([PROJECTS], 'readwrite', tx => { tx.objectStore(PROJECTS).put({ ...stored, name }); });
+};
+
+export const duplicateLibraryProject = async (id: string, name: string): Promise<LibraryEntry | null> => {
+  const stored = await getProject(id);
+  if (!stored) return null;
+  const entry: LibraryEntry = { id: newId(), name, updatedAt: Date.now() };
+  await transact([PROJECTS], 'readwrite', tx => { tx.objectStore(PROJECTS).put({ ...entry, json: stored.json }); });
+  return entry;
+};
+
+export const deleteLibraryProject = (id: string) =>
+  transact([PROJECTS], 'readwrite', tx => { tx.objectStore(PROJECTS).delete(id); });
+
+/** Writes the session slot and, for a library project, the project itself in the same transaction. */
+export const autosave = (project: ProjectRef, data: TableData) => {
+  const json = serializeProject(data);
+  const updatedAt = Date.now();
+  return transact([PROJECTS, SESSION], 'readwrite', tx => {
+    const session: StoredSession = { key: SESSION_KEY, project, updatedAt, json };
+    tx.objectStore(SESSION).put(session);
+    if (!project.id) return;
+    const projects = tx.objectStore(PROJECTS);
+    const id = project.id;
+    // Проект, удалённый из библиотеки в другой вкладке, не воскрешается автосохранением
+    const existing = projects.get(id);
+    existing.onsuccess = () => {
+      if (existing.result) projects.put({ ...existing.result, json, updatedAt });
+    };
+  });
+};
+
+/** Last autosaved state; null when there is none or it can no longer be read. */
+export const readSession = async (): Promise<SessionSnapshot | null> => {
+  const stored = await transact<StoredSession | undefined>([SESSION], 'readonly', tx => tx.objectStore(SESSION).get(SESSION_KEY));
+  if (!stored) return null;
+  try {
+    return { project: stored.project, updatedAt: stored.updatedAt, data: parseProject(stored.json) };
+  } catch (err) {
+    console.error('Autosave is unreadable:', err);
+    return null;
+  }
+};
+
+export const clearSession = () =>
+  transact([SESSION], 'readwrite', tx => { tx.objectStore(SESSION).delete(SESSION_KEY); });
@@ -0,0 +1,48 @@
+import { TableData, TableRow } from '../types';
+import { formatToFixed1 } from './formatService';
+import { isNumberColumn, normalizeCellValue } from './columnService';
+
+/**
+ * Computed totals for rows flagged with `autoSum`.
+ * Values are summed over body rows (for a subtotal, over the body rows below it up to
+ * the next total row); cells marked `manual` keep their typed value.
+ */
+
+/** Parses comma-decimal strings like "153 182,6"; returns null for dashes, text and empty cells. */
+export const parseNumericValue = (value: string): number | null => {
+  if (!value) return null;
+  const clean = value.replace(/[\s ]/g, '').replace(',', '.');
+  if (!/^-?\d+(\.\d+)?$/.test(clean)) return null;
+  return parseFloat(clean);
+};
+
+export const sumColumn = (rows: TableRow[], colIdx: number): string => {
+  let sum = 0;
+  rows.forEach(row => {
+    const num = parseNumericValue(row.cells[colIdx]?.value || '');
+    if (num !== null) sum += num;
+  });
+  return formatToFixed1((Math.round(sum * 10) / 10).toString());
+};
+
+export const applyComputedTotals = (data: TableData): TableData => {
+  if (!data.rows.some(r => r.isTotal && r.autoSum)) return data;
+  const bodyRows = data.rows.filter(r => !r.isTotal);
+  const groupRows = (rIdx: number) => {
+    const end = data.rows.findIndex((r, i) => i > rIdx && r.isTotal);
+    return data.rows.slice(rIdx + 1, end === -1 ? undefined : end);
+  };
+  const rows = data.rows.map((row, rIdx) => {
+    if (!row.isTotal || !row.autoSum) return row;
+    const summed = row.subtotal ? groupRows(rIdx) : bodyRows;
+    return {
+      ...row,
+      cells: row.cells.map((cell, cIdx) => {
+        const column = data.columns[cIdx];
+        if (!isNumberColumn(column) || cell.manual) return cell;
+        return { ...cell, value: normalizeCellValue(column, sumColumn(summed, cIdx), true) };
+      })
+    };
+  });
+  return { ...data, rows };
+};
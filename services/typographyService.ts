@@ -0,0 +1,132 @@
+import { TableData, TableColumn, TableCell, TypographySettings, TypographyRuleId } from '../types';
+import { DEFAULT_TYPOGRAPHY } from '../constants';
+import { formatRussianText, TYPOGRAPHY_RULES } from './formatService';
+import { hyphenateText, SOFT_HYPHEN } from './hyphenationService';
+
+/**
+ * Typography profile of the project and of single columns, plus the built-in
+ * self-check: typical Russian typography cases with the expected result, run
+ * from the document panel to see that the rules still do what they should.
+ */
+
+export const getTypographySettings = (data: TableData): TypographySettings => ({ ...DEFAULT_TYPOGRAPHY, ...data.typography });
+
+/** Project profile plus the rules switched off in the column. */
+export const getColumnTypography = (settings: TypographySettings, column: TableColumn | undefined): TypographySettings =>
+  column?.typographyOff?.length
+    ? { ...settings, disabled: [...new Set([...settings.disabled, ...column.typographyOff])] }
+    : settings;
+
+/** Column profile, or no rules at all for a cell marked as plain. */
+export const getCellTypography = (settings: TypographySettings, cell: TableCell | undefined): TypographySettings =>
+  cell?.plain ? { ...settings, disabled: TYPOGRAPHY_RULES.map(r => r.id) } : settings;
+
+/** Text without the service characters typography inserts: NBSP becomes a space, the non-breaking hyphen a hyphen. */
+export const stripTypography = (text: string) => text
+  .replace(/\u00A0/g, ' ')
+  .replace(/[\u2060\u00AD]/g, '')
+  .replace(/\u2011/g, '-');
+
+export interface TypographyCase {
+  rule: TypographyRuleId | 'hyphenation'; // hyphenation — переносы по слогам, без правил типографики
+  input: string;
+  expected: string;
+  settings?: Partial<TypographySettings>; // отличия от встроенного профиля
+}
+
+const NBSP = '\u00A0';
+const hyphens = (...syllables: string[]) => syllables.join(SOFT_HYPHEN);
+
+export const TYPOGRAPHY_CASES: TypographyCase[] = [
+  { rule: 'singleDash', input: ' - ', expected: '–' },
+  { rule: 'units', input: 'Площадь 120 м2', expected: 'Площадь 120 м²' },
+  { rule: 'units', input: 'Объём 40 м3', expected: 'Объём 40 м³' },
+  { rule: 'quotes', input: 'Котельная "Центральная"', expected: 'Котельная «Центральная»' },
+  { rule: 'prepositions', input: 'Замена оборудования в котельной', expected: `Замена оборудования в${NBSP}котельной` },
+  { rule: 'prepositions', input: 'Работы и в поселке', expected: `Работы и${NBSP}в${NBSP}поселке` },
+  { rule: 'prepositions', input: 'Насос из-за износа', expected: `Насос из-за${NBSP}износа` },
+  { rule: 'prepositions', input: 'вдоль дороги в поле', expected: `вдоль${NBSP}дороги в поле`, settings: { prepositions: ['вдоль'] } },
+  { rule: 'leadAbbreviations', input: 'г. Луганск, ул. Мира', expected: `г.${NBSP}Луганск, ул.${NBSP}Мира` },
+  { rule: 'leadAbbreviations', input: 'пр-т. Победы', expected: `пр-т.${NBSP}Победы` },
+  { rule: 'leadAbbreviations', input: 'пгт. Станица Луганская', expected: `пгт.${NBSP}Станица Луганская` },
+  { rule: 'addressComma', input: 'Мира, 14', expected: `Мира,${NBSP}14` },
+  { rule: 'trailAbbreviations', input: '250 тыс. руб.', expected: `250${NBSP}тыс. руб.` },
+  { rule: 'trailAbbreviations', input: '12 шт.', expected: `12${NBSP}шт.` },
+  { rule: 'numberSign', input: 'Котельная №1', expected: `Котельная №${NBSP}1` },
+  { rule: 'parentheses', input: 'объектов (-ов)', expected: `объектов${NBSP}(\u2060\u2011ов\u2060)` },
+  { rule: 'numberRanges', input: '2024-2030', expected: '2024–2030' },
+  { rule: 'dashes', input: 'котельная - объект', expected: `котельная${NBSP}— объект` },
+  { rule: 'thousands', input: '153182,6', expected: `153${NBSP}182,6` },
+  { rule: 'thousands', input: 'Код 12345', expected: 'Код 12345', settings: { disabled: ['thousands'] } },
+  { rule: 'keepYears', input: '2024', expected: '2024' },
+  { rule: 'keepYears', input: '2000', expected: `2${NBSP}000`, settings: { disabled: ['keepYears'] } },
+  { rule: 'numberRanges', input: '2024-2025', expected: '2024-2025', settings: { disabled: ['numberRanges'] } },
+  // Сочетание согласных, с которого начинается слог, не разрывается: элек-тро, а не элек-трос
+  { rule: 'hyphenation', input: 'трансформаторная', expected: hyphens('тран', 'сфор', 'ма', 'тор', 'ная') },
+  { rule: 'hyphenation', input: 'электроснабжения', expected: hyphens('элек', 'тро', 'снаб', 'же', 'ния') },
+  { rule: 'hyphenation', input: 'водоснабжения', expected: hyphens('во', 'до', 'снаб', 'же', 'ния') },
+  { rule: 'hyphenation', input: 'мероприятия', expected: hyphens('ме', 'ро', 'при', 'я', 'тия') }
+];
+
+export interface TypographyCheckResult {
+  check: TypographyCase;
+  actual: string;
+  passed: boolean;
+}
+
+export const runTypographyChecks = (cases: TypographyCase[] = TYPOGRAPHY_CASES): TypographyCheckResult[] =>
+  cases.map(check => {
+    const actual = check.rule === 'hyphenation'
+      ? hyphenateText(check.input)
+      : formatRussianText(check.input, { ...DEFAULT_TYPOGRAPHY, ...check.settings });
+    return { check, actual, passed: actual === check.expected };
+  });
+
+/** Glyphs drawn for invisible characters: ⍽ for NBSP, ⁀ for the word joiner, · for the soft hyphen. */
+export const INVISIBLE_GLYPHS: Record<string, string> = {
+  '\u00A0': '⍽',
+  '\u2060': '⁀',
+  '\u00AD': '·'
+};
+
+/** Invisible characters of a check result made readable. */
+export const showInvisibles = (text: string) => text.replace(/[\u00A0\u2060\u00AD]/g, ch => INVISIBLE_GLYPHS[ch]);
+
+// Цвета на белом листе редактора; знаки из исходного текста — серые
+export const TYPOGRAPHY_RULE_COLORS: Record<TypographyRuleId, string> = {
+  singleDash: '#ea580c',
+  units: '#ca8a04',
+  quotes: '#65a30d',
+  prepositions: '#0284c7',
+  leadAbbreviations: '#4f46e5',
+  addressComma: '#9333ea',
+  trailAbbreviations: '#db2777',
+  numberSign: '#e11d48',
+  parentheses: '#0d9488',
+  numberRanges: '#059669',
+  dashes: '#dc2626',
+  thousands: '#b45309',
+  keepYears: '#57534e'
+};
+
+export const SOURCE_CHAR_COLOR = '#6b7280';
+
+const CHAR_NAMES: Record<string, string> = {
+  '\u00A0': 'Неразрывный пробел',
+  '\u2060': 'Склейка (word joiner)',
+  '\u2011': 'Неразрывный дефис',
+  '\u00AD': 'Мягкий перенос',
+  '–': 'Короткое тире',
+  '—': 'Длинное тире',
+  '«': 'Открывающая кавычка',
+  '»': 'Закрывающая кавычка',
+  '²': 'Квадратные метры',
+  '³': 'Кубические метры'
+};
+
+/** Tooltip of a highlighted character: what it is and which rule put it there. */
+export const describeTypographyChar = (char: string, rule: TypographyRuleId | null) => {
+  const name = CHAR_NAMES[char] || `Знак «${char}»`;
+  const label = rule && TYPOGRAPHY_RULES.find(r => r.id === rule)?.label;
+  return label ? `${name} — правило «${label}»` : `${name} — из исходного текста`;
+};
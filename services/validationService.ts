@@ -0,0 +1,93 @@
+import { TableData, TableColumn, ValidationRules } from '../types';
+import { getColumnMeta, isValidCellValue } from './columnService';
+import { parseNumericValue } from './totalsService';
+import { buildMergeGrid, isCovered } from './mergeService';
+
+/**
+ * Checks of cell values against the column type (numbers in number columns,
+ * Да/Нет in yes/no columns, years in periods) and the column's validation rules.
+ * Only body rows are checked: total rows are computed or filled by hand on purpose.
+ */
+
+export interface CellIssue {
+  rowIdx: number;
+  colIdx: number;
+  message: string;
+}
+
+const formatNumber = (n: number) => String(n).replace('.', ',');
+
+const describeBounds = (min: number | undefined, max: number | undefined) => [
+  min !== undefined ? `от ${formatNumber(min)}` : '',
+  max !== undefined ? `до ${formatNumber(max)}` : ''
+].filter(Boolean).join(' ');
+
+const outOfBounds = (n: number, min: number | undefined, max: number | undefined) =>
+  (min !== undefined && n < min) || (max !== undefined && n > max);
+
+/** Pattern of a rule matched against the whole value; null when the expression does not compile. */
+export const compileRulePattern = (pattern: string): RegExp | null => {
+  try {
+    return new RegExp(`^(?:${pattern})$`);
+  } catch {
+    return null;
+  }
+};
+
+/** Rules without empty fields; undefined when nothing is checked. */
+export const normalizeRules = (rules: ValidationRules): ValidationRules | undefined => {
+  const result: ValidationRules = {};
+  if (rules.required) result.required = true;
+  (['min', 'max', 'yearMin', 'yearMax'] as const).forEach(key => {
+    if (rules[key] !== undefined && Number.isFinite(rules[key])) result[key] = rules[key];
+  });
+  if (rules.pattern) result.pattern = rules.pattern;
+  if (rules.allowed?.some(a => a.trim())) result.allowed = rules.allowed;
+  return Object.keys(result).length > 0 ? result : undefined;
+};
+
+/** Problem of a single value in the column, or null when the value passes. */
+export const getCellIssue = (column: TableColumn | undefined, value: string): string | null => {
+  const meta = getColumnMeta(column);
+  if (meta.type === 'index') return null;
+  const rules = column?.rules || {};
+  const clean = value.trim();
+  if (!clean || clean === meta.placeholder) return rules.required ? 'Обязательное значение не заполнено' : null;
+
+  if (!isValidCellValue(column, value)) {
+    return meta.type === 'boolean' ? 'Допустимы только «Да» и «Нет»' : 'Значение не является числом';
+  }
+  if (meta.type === 'number') {
+    const n = parseNumericValue(clean);
+    if (n !== null && outOfBounds(n, rules.min, rules.max)) return `Число вне допустимых пределов (${describeBounds(rules.min, rules.max)})`;
+  }
+  if (meta.type === 'period') {
+    const years = Array.from(clean.matchAll(/\d{4}/g), m => Number(m[0]));
+    if (years.length === 0) return 'В периоде нет года';
+    if (years.length === 2 && years[0] > years[1]) return 'Начало периода позже окончания';
+    const year = years.find(y => outOfBounds(y, rules.yearMin, rules.yearMax));
+    if (year !== undefined) return `Год ${year} вне допустимых пределов (${describeBounds(rules.yearMin, rules.yearMax)})`;
+  }
+  const allowed = (rules.allowed || []).map(a => a.trim()).filter(Boolean);
+  if (allowed.length > 0 && !allowed.includes(clean)) return 'Значения нет в списке допустимых';
+  if (rules.pattern) {
+    const pattern = compileRulePattern(rules.pattern);
+    if (pattern && !pattern.test(clean)) return 'Значение не соответствует шаблону';
+  }
+  return null;
+};
+
+/** Problems of all body cells in table order; a merged cell is checked once, by its anchor. */
+export const findIssues = (data: TableData): CellIssue[] => {
+  const grid = buildMergeGrid(data.rows);
+  const issues: CellIssue[] = [];
+  data.rows.forEach((row, r) => {
+    if (row.isTotal) return;
+    row.cells.forEach((cell, c) => {
+      if (isCovered(grid, r, c)) return;
+      const message = getCellIssue(data.columns[c], cell.value);
+      if (message) issues.push({ rowIdx: r, colIdx: c, message });
+    });
+  });
+  return issues;
+};
@@ -0,0 +1,137 @@
+import { TableData, TableRow, RowView, SortDirection } from '../types';
+import { CIRCLE_PALETTE, DEFAULT_CIRCLE_COLOR } from '../constants';
+import { getColumnMeta, findIndexColumn } from './columnService';
+import { getCellIssue } from './validationService';
+import { parseNumericValue } from './totalsService';
+import { buildMergeGrid, getEffectiveValue, getMergeAreas, releaseMerges, autoMergeColumn, MergeGrid } from './mergeService';
+
+/**
+ * Sorting and filtering of body rows. Total rows are pinned: rows are only reordered
+ * between them, so subtotal groups keep their rows. The view is applied to a copy of
+ * the data for the editor (and optionally the PDF); `sortRows` reorders the project itself.
+ */
+
+export const DEFAULT_ROW_VIEW: RowView = {
+  sortColumnId: null,
+  sortDirection: 'asc',
+  query: '',
+  category: null,
+  problems: 'all',
+  applyToPdf: false
+};
+
+export const isRowViewActive = (view: RowView) =>
+  !!view.sortColumnId || !!view.query.trim() || !!view.category || view.problems !== 'all';
+
+const categoryLabel = (color: string) =>
+  CIRCLE_PALETTE.find(p => p.color.toLowerCase() === color.toLowerCase())?.label || color;
+
+/** Numbers (comma decimals and digit groups like "17 018,3") before text; empty values always last. */
+const compareValues = (a: string, b: string, direction: SortDirection) => {
+  if (!a || !b) return a ? -1 : b ? 1 : 0;
+  const sign = direction === 'asc' ? 1 : -1;
+  const na = parseNumericValue(a);
+  const nb = parseNumericValue(b);
+  if (na !== null && nb !== null) return (na - nb) * sign;
+  if (na !== null || nb !== null) return na !== null ? -1 : 1;
+  return a.localeCompare(b, 'ru', { numeric: true, sensitivity: 'base' }) * sign;
+};
+
+const createSortKey = (data: TableData, grid: MergeGrid, colIdx: number) => {
+  const meta = getColumnMeta(data.columns[colIdx]);
+  return (r: number) => {
+    if (meta.type === 'index') return categoryLabel(data.rows[r].cells[colIdx]?.style?.circleColor || DEFAULT_CIRCLE_COLOR);
+    const value = getEffectiveValue(data.rows, grid, r, colIdx).trim();
+    return value === meta.placeholder ? '' : value;
+  };
+};
+
+/** Body row indices between total rows, in table order. */
+const forEachSegment = (rows: TableRow[], onSegment: (segment: number[]) => void, onTotal: (r: number) => void) => {
+  let segment: number[] = [];
+  rows.forEach((row, r) => {
+    if (!row.isTotal) {
+      segment.push(r);
+      return;
+    }
+    onSegment(segment);
+    segment = [];
+    onTotal(r);
+  });
+  onSegment(segment);
+};
+
+/** Display order of data rows for the view, or null when the view shows the table as is. */
+export const getRowOrder = (data: TableData, view: RowView): number[] | null => {
+  if (!isRowViewActive(view)) return null;
+  const grid = buildMergeGrid(data.rows);
+  const indexCol = findIndexColumn(data.columns);
+  const sortCol = data.columns.findIndex(c => c.id === view.sortColumnId);
+  const sortKey = sortCol !== -1 ? createSortKey(data, grid, sortCol) : null;
+  const query = view.query.trim().toLowerCase();
+
+  const isVisible = (r: number) => {
+    const row = data.rows[r];
+    const values = row.cells.map((_, c) => getEffectiveValue(data.rows, grid, r, c));
+    if (query && !values.some((v, c) => c !== indexCol && v.toLowerCase().includes(query))) return false;
+    if (view.category && indexCol !== -1) {
+      const color = row.cells[indexCol]?.style?.circleColor || DEFAULT_CIRCLE_COLOR;
+      if (color.toLowerCase() !== view.category.toLowerCase()) return false;
+    }
+    if (view.problems === 'empty') return values.some((v, c) => c !== indexCol && !v.trim());
+    if (view.problems === 'invalid') return values.some((v, c) => getCellIssue(data.columns[c], v) !== null);
+    return true;
+  };
+
+  const order: number[] = [];
+  forEachSegment(
+    data.rows,
+    segment => {
+      const sorted = sortKey ? [...segment].sort((a, b) => compareValues(sortKey(a), sortKey(b), view.sortDirection)) : segment;
+      order.push(...sorted.filter(isVisible));
+    },
+    r => order.push(r)
+  );
+  return order;
+};
+
+/**
+ * Rows in display order. Merges whose rows no longer follow each other are shown
+ * as separate cells with the anchor's text repeated.
+ */
+export const applyRowOrder = (data: TableData, order: number[]): TableData => {
+  const position = new Map(order.map((r, i) => [r, i]));
+  const broken = getMergeAreas(data.rows).filter(area => {
+    const start = position.get(area.row);
+    if (start === undefined) return true;
+    for (let k = 1; k < area.rowSpan; k++) if (position.get(area.row + k) !== start + k) return true;
+    return false;
+  });
+  const rows = releaseMerges(data.rows, data.columns, broken);
+  return { ...data, rows: order.map(r => rows[r]) };
+};
+
+/** Reorders the project's rows; vertical text merges are rebuilt after sorting. */
+export const sortRows = (data: TableData, columnId: string, direction: SortDirection): TableRow[] => {
+  const colIdx = data.columns.findIndex(c => c.id === columnId);
+  if (colIdx === -1) return data.rows;
+  const grid = buildMergeGrid(data.rows);
+  const sortKey = createSortKey(data, grid, colIdx);
+  const areas = getMergeAreas(data.rows).filter(a => a.rowSpan > 1);
+  const released = releaseMerges(data.rows, data.columns, areas);
+
+  const rows: TableRow[] = [];
+  forEachSegment(
+    data.rows,
+    segment => [...segment]
+      .sort((a, b) => compareValues(sortKey(a), sortKey(b), direction))
+      .forEach(r => rows.push(released[r])),
+    r => rows.push(released[r])
+  );
+
+  const remerge = [...new Set(areas.filter(a => a.colSpan === 1).map(a => a.col))]
+    .filter(c => getColumnMeta(data.columns[c]).type !== 'number');
+  return remerge.reduce((acc, c) => autoMergeColumn(acc, c), rows);
+};
+
+export const countBodyRows = (data: TableData) => data.rows.filter(r => !r.isTotal).length;
@@ -4,12 +4,17 @@ export interface TableCellStyle {
   fontWeight?: string | number;
   circleColor?: string;
   circleSize?: number;
+  fontStyle?: 'normal' | 'italic';
 }
 
 export interface TableCell {
   id: string;
   value: string;
   style?: TableCellStyle;
+  manual?: boolean; // ручное значение в строке с автосуммой
+  plain?: boolean;  // типографика к ячейке не применяется
+  rowSpan?: number; // объединение задаётся в левой верхней ячейке
+  colSpan?: number;
 }
 
 export interface TableRow {
@@ -17,21 +22,165 @@ export interface TableRow {
   cells: TableCell[];
   isHeader?: boolean;
   isTotal?: boolean;
+  autoSum?: boolean; // числовые ячейки итоговой строки считаются по строкам таблицы
+  subtotal?: boolean; // промежуточный итог группы, считается по строкам под ним
+  pageBreak?: PageBreakMode; // разрыв страницы перед строкой
 }
 
+/** 'before' — строка всегда начинает новый лист, 'avoid' — лист не может начинаться с этой строки. */
+export type PageBreakMode = 'before' | 'avoid';
+
+export type ColumnType = 'index' | 'text' | 'number' | 'boolean' | 'period' | 'unit';
+
+export type ColumnAlign = 'left' | 'center' | 'right';
+
 export interface TableColumn {
   id: string;
   title: string;
   width: number; // percentage
+  type?: ColumnType;         // по умолчанию 'text'
+  align?: ColumnAlign;       // по умолчанию 'center'
+  fontSize?: number;         // мм, размер текста ячеек по умолчанию
+  fontWeight?: number;       // начертание ячеек по умолчанию
+  placeholder?: string;      // значение для пустых ячеек, например '–'
+  hyphenate?: boolean;       // переносы по слогам в ячейках и заголовке колонки
+  typographyOff?: TypographyRuleId[]; // правила типографики, выключенные в этой колонке
+  rules?: ValidationRules;   // проверка значений в строках таблицы
+}
+
+/** Проверки значений колонки. Незаполненная ячейка (пустая или с заглушкой) проверяется только на `required`. */
+export interface ValidationRules {
+  required?: boolean;
+  min?: number;        // для чисел
+  max?: number;
+  pattern?: string;    // регулярное выражение, которому должно соответствовать всё значение
+  allowed?: string[];  // список допустимых значений
+  yearMin?: number;    // для периодов: годы в этих пределах
+  yearMax?: number;
+}
+
+export interface HeaderGroup {
+  id: string;
+  title: string;
+  startColId: string; // первая колонка группы
+  endColId: string;   // последняя колонка группы
+}
+
+export type LegendPosition = 'below' | 'bottom-left' | 'bottom-right';
+
+export interface LegendSettings {
+  enabled: boolean;
+  position: LegendPosition; // под таблицей или в углу последнего листа
+  title: string;
+}
+
+export type PageFormat = 'a4' | 'a3' | 'a2' | 'custom';
+
+export type PageOrientation = 'landscape' | 'portrait';
+
+export interface PageMargins {
+  top: number;
+  right: number;
+  bottom: number;
+  left: number;
+}
+
+export interface PageSettings {
+  format: PageFormat;
+  orientation: PageOrientation;
+  width: number;  // мм, используется для формата 'custom'
+  height: number;
+  margins: PageMargins;
+}
+
+/**
+ * Шапка и колонтитулы документа. В шаблонах доступны поля
+ * {title}, {subtitle}, {appendix}, {organization}, {date}, {page}, {pages}.
+ */
+export interface DocumentSettings {
+  title: string;
+  subtitle: string;
+  appendix: string;       // номер приложения
+  organization: string;
+  repeatTitle: boolean;   // заголовок на каждом листе, иначе только на первом
+  headerTemplate: string; // строка над заголовком справа
+  footerLeft: string;
+  footerCenter: string;
+  footerRight: string;
+}
+
+export type FontVariant = 'normal' | 'bold' | 'italic' | 'bolditalic';
+
+export interface ProjectFont {
+  id: string;
+  family: string;
+  variant: FontVariant;
+  fileName: string;
+  data: string; // TTF в base64, хранится в файле проекта для работы без сети
+}
+
+export type TypographyRuleId =
+  | 'singleDash'
+  | 'units'
+  | 'quotes'
+  | 'prepositions'
+  | 'leadAbbreviations'
+  | 'addressComma'
+  | 'trailAbbreviations'
+  | 'numberSign'
+  | 'parentheses'
+  | 'numberRanges'
+  | 'dashes'
+  | 'thousands'
+  | 'keepYears';
+
+/** Профиль типографики проекта: выключенные правила и списки слов, к которым они применяются. */
+export interface TypographySettings {
+  disabled: TypographyRuleId[];
+  prepositions: string[];       // предлоги и союзы, не остающиеся в конце строки
+  leadAbbreviations: string[];  // сокращения перед словом: г., ул., пгт.
+  trailAbbreviations: string[]; // сокращения после числа: руб., тыс.
+}
+
+export type GroupingMode = 'sort' | 'cluster';
+
+/** Last grouping applied to the table; kept to regroup and to number rows per group. */
+export interface GroupingSettings {
+  columnId: string;
+  mode: GroupingMode;          // 'sort' — группы по алфавиту, 'cluster' — в порядке появления
+  restartNumbering: boolean;   // нумерация AUTO заново в каждой группе
 }
 
 export interface TableData {
   columns: TableColumn[];
   rows: TableRow[];
-  groupTitle?: string;
+  headerGroups?: HeaderGroup[];
+  legend?: LegendSettings;
+  fonts?: ProjectFont[];
+  fontFamily?: string; // гарнитура таблицы; по умолчанию Roboto Condensed
+  page?: PageSettings;
+  document?: DocumentSettings;
+  grouping?: GroupingSettings;
+  typography?: TypographySettings;
+}
+
+export type SortDirection = 'asc' | 'desc';
+export type ProblemFilter = 'all' | 'empty' | 'invalid';
+
+/** Editor-only sorting and filtering; the project's row order is not touched. */
+export interface RowView {
+  sortColumnId: string | null;
+  sortDirection: SortDirection;
+  query: string;
+  category: string | null;   // цвет кружка
+  problems: ProblemFilter;
+  applyToPdf: boolean;
 }
 
 export type Selection = {
   rowIdx: number;
   colIdx: number;
+  // Второй угол диапазона (Shift+клик, Shift+стрелки); без него выделена одна ячейка
+  endRowIdx?: number;
+  endColIdx?: number;
 } | null;